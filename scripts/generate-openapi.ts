@@ -1,19 +1,61 @@
 import fs from 'node:fs/promises';
 import path from 'node:path';
+import { AuthenticateUserUseCase } from '../src/application/use-cases/authenticate-user.js';
+import { CreateQuestionUseCase } from '../src/application/use-cases/create-question.js';
 import { CreateSessionUseCase } from '../src/application/use-cases/create-session.js';
+import { CreateUserUseCase } from '../src/application/use-cases/create-user.js';
+import { EndSessionUseCase } from '../src/application/use-cases/end-session.js';
 import { GetCurrentPromptUseCase } from '../src/application/use-cases/get-current-prompt.js';
+import { GetProgressUseCase } from '../src/application/use-cases/get-progress.js';
+import { GetReviewQueueUseCase } from '../src/application/use-cases/get-review-queue.js';
 import { GetSessionResultUseCase } from '../src/application/use-cases/get-session-result.js';
+import type { FeedbackJob } from '../src/application/use-cases/helpers.js';
+import { ListNotebookUseCase } from '../src/application/use-cases/list-notebook.js';
+import { ListQuestionsUseCase } from '../src/application/use-cases/list-questions.js';
+import { ListTemplatesUseCase } from '../src/application/use-cases/list-templates.js';
+import { ListUserSessionsUseCase } from '../src/application/use-cases/list-user-sessions.js';
+import { PauseSessionUseCase } from '../src/application/use-cases/pause-session.js';
+import { RetireQuestionUseCase } from '../src/application/use-cases/retire-question.js';
+import { RetryFeedbackUseCase } from '../src/application/use-cases/retry-feedback.js';
+import { RetryQuestionUseCase } from '../src/application/use-cases/retry-question.js';
+import { ReviewNotebookItemUseCase } from '../src/application/use-cases/review-notebook-item.js';
+import { SkipQuestionUseCase } from '../src/application/use-cases/skip-question.js';
+import { SpeakImprovedAnswerUseCase } from '../src/application/use-cases/speak-improved-answer.js';
 import { SubmitAnswerUseCase } from '../src/application/use-cases/submit-answer.js';
+import { SynthesizeSpeechUseCase } from '../src/application/use-cases/synthesize-speech.js';
+import { UpdateQuestionUseCase } from '../src/application/use-cases/update-question.js';
+import { INTERVIEW_TEMPLATES } from '../src/domain/entities/interview-templates.js';
+import { QUESTION_BANK } from '../src/domain/entities/question-bank.js';
 import type { InterviewCoachService } from '../src/domain/services/interview-coach-service.js';
+import type { PronunciationAssessmentService } from '../src/domain/services/pronunciation-assessment-service.js';
 import type { SpeechToTextService } from '../src/domain/services/speech-to-text-service.js';
+import type { TextToSpeechService } from '../src/domain/services/text-to-speech-service.js';
+import { InMemoryJobQueue } from '../src/infrastructure/queue/in-memory-job-queue.js';
+import { InMemoryIdempotencyRepository } from '../src/infrastructure/repositories/in-memory-idempotency-repository.js';
+import { InMemoryNotebookRepository } from '../src/infrastructure/repositories/in-memory-notebook-repository.js';
+import { InMemoryQuestionRepository } from '../src/infrastructure/repositories/in-memory-question-repository.js';
 import { InMemorySessionRepository } from '../src/infrastructure/repositories/in-memory-session-repository.js';
+import { InMemoryTemplateRepository } from '../src/infrastructure/repositories/in-memory-template-repository.js';
+import { InMemoryUserRepository } from '../src/infrastructure/repositories/in-memory-user-repository.js';
 import { buildServer } from '../src/presentation/http/server.js';
 
 const OUTPUT_PATH = path.resolve(process.cwd(), 'openapi.json');
 
 const fakeSpeechToText: SpeechToTextService = {
   async transcribe() {
-    return 'stub';
+    return { text: 'stub', words: [], durationSec: null };
+  }
+};
+
+const fakePronunciationAssessment: PronunciationAssessmentService = {
+  async assess() {
+    return [];
+  }
+};
+
+const fakeTextToSpeech: TextToSpeechService = {
+  async synthesize() {
+    return Buffer.alloc(0);
   }
 };
 
@@ -21,27 +63,74 @@ const fakeInterviewCoach: InterviewCoachService = {
   async generateInterviewerReply() {
     return { replyText: 'stub', followUpQuestion: null };
   },
+  async streamInterviewerReply() {
+    return { replyText: 'stub', followUpQuestion: null };
+  },
   async generateFollowUpClose() {
     return 'stub';
   },
-  async generateFeedback(params) {
+  async streamFollowUpClose() {
+    return 'stub';
+  },
+  async generateAnswerFeedback() {
+    return { corrections: [], improvedAnswer: 'stub' };
+  },
+  async rateAnswer() {
+    return null;
+  },
+  async generateFeedback() {
     return {
-      timingSummary: params.timingSummary,
       corrections: [],
-      improvedBestAnswer: { question: '', answer: '' },
-      interviewTips: []
+      vocabulary: [],
+      improvedAnswers: [],
+      interviewTips: [],
+      turnScores: [],
+      proficiency: [],
+      attemptComparisons: []
     };
   }
 };
 
 async function main() {
   const repo = new InMemorySessionRepository();
+  const questionRepo = new InMemoryQuestionRepository(QUESTION_BANK);
+  const templateRepo = new InMemoryTemplateRepository(INTERVIEW_TEMPLATES);
+  const userRepo = new InMemoryUserRepository();
+  const notebookRepo = new InMemoryNotebookRepository();
+  const feedbackQueue = new InMemoryJobQueue<FeedbackJob>({ concurrency: 1 });
 
   const app = await buildServer({
-    createSession: new CreateSessionUseCase(repo),
+    createSession: new CreateSessionUseCase(repo, questionRepo, templateRepo),
     getCurrentPrompt: new GetCurrentPromptUseCase(repo),
-    submitAnswer: new SubmitAnswerUseCase(repo, fakeSpeechToText, fakeInterviewCoach),
-    getSessionResult: new GetSessionResultUseCase(repo)
+    submitAnswer: new SubmitAnswerUseCase(
+      repo,
+      fakeSpeechToText,
+      fakeInterviewCoach,
+      new InMemoryIdempotencyRepository(),
+      fakePronunciationAssessment,
+      feedbackQueue,
+      questionRepo
+    ),
+    retryQuestion: new RetryQuestionUseCase(repo),
+    skipQuestion: new SkipQuestionUseCase(repo, feedbackQueue),
+    pauseSession: new PauseSessionUseCase(repo),
+    endSession: new EndSessionUseCase(repo, feedbackQueue),
+    getSessionResult: new GetSessionResultUseCase(repo),
+    retryFeedback: new RetryFeedbackUseCase(repo, feedbackQueue),
+    synthesizeSpeech: new SynthesizeSpeechUseCase(fakeTextToSpeech),
+    speakImprovedAnswer: new SpeakImprovedAnswerUseCase(repo, fakeTextToSpeech),
+    listQuestions: new ListQuestionsUseCase(questionRepo),
+    createQuestion: new CreateQuestionUseCase(questionRepo),
+    updateQuestion: new UpdateQuestionUseCase(questionRepo),
+    retireQuestion: new RetireQuestionUseCase(questionRepo),
+    listTemplates: new ListTemplatesUseCase(templateRepo),
+    authenticateUser: new AuthenticateUserUseCase(userRepo),
+    createUser: new CreateUserUseCase(userRepo),
+    listUserSessions: new ListUserSessionsUseCase(repo),
+    getProgress: new GetProgressUseCase(repo),
+    listNotebook: new ListNotebookUseCase(notebookRepo),
+    getReviewQueue: new GetReviewQueueUseCase(notebookRepo),
+    reviewNotebookItem: new ReviewNotebookItemUseCase(notebookRepo)
   });
 
   await app.ready();
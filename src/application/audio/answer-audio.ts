@@ -0,0 +1,224 @@
+import { ValidationError } from '../errors/validation-error.js';
+
+/** Matches the upload limit of the speech-to-text API. */
+export const MAX_ANSWER_AUDIO_BYTES = 25 * 1024 * 1024;
+export const MAX_ANSWER_DURATION_SEC = 300;
+export const MIN_ANSWER_DURATION_SEC = 0.5;
+
+/** RMS of 16-bit samples below which a 20 ms frame counts as silence. */
+export const SILENCE_RMS_THRESHOLD = 500;
+export const SILENCE_FRAME_MS = 20;
+
+export const SUPPORTED_AUDIO_MIME_TYPES = [
+  'audio/wav',
+  'audio/mpeg',
+  'audio/webm',
+  'audio/ogg',
+  'audio/mp4',
+  'audio/flac'
+] as const;
+
+export type AudioMimeType = (typeof SUPPORTED_AUDIO_MIME_TYPES)[number];
+
+export interface AnswerAudio {
+  audio: Buffer;
+  mimeType: AudioMimeType;
+  /** Exact for WAV, estimated from the first frame for MP3, null for container formats. */
+  durationSec: number | null;
+  /** Silence before the first spoken frame; only measurable for 16-bit PCM WAV. */
+  leadingSilenceSec: number | null;
+}
+
+interface WavLayout {
+  audioFormat: number;
+  channels: number;
+  sampleRate: number;
+  byteRate: number;
+  bitsPerSample: number;
+  dataOffset: number;
+  dataBytes: number;
+}
+
+const MIME_TYPE_ALIASES: Record<string, AudioMimeType> = {
+  'audio/wav': 'audio/wav',
+  'audio/wave': 'audio/wav',
+  'audio/x-wav': 'audio/wav',
+  'audio/mpeg': 'audio/mpeg',
+  'audio/mp3': 'audio/mpeg',
+  'audio/webm': 'audio/webm',
+  'video/webm': 'audio/webm',
+  'audio/ogg': 'audio/ogg',
+  'audio/mp4': 'audio/mp4',
+  'audio/m4a': 'audio/mp4',
+  'audio/x-m4a': 'audio/mp4',
+  'audio/flac': 'audio/flac',
+  'audio/x-flac': 'audio/flac'
+};
+
+// Kbps by bitrate index for MPEG-1 and MPEG-2/2.5 Layer III.
+const MP3_BITRATES_V1 = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MP3_BITRATES_V2 = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+
+/**
+ * Checks an uploaded answer before any paid API call: size, that the bytes
+ * really are a supported format (and the one declared, if any), and duration
+ * where it can be read without decoding.
+ */
+export function inspectAnswerAudio(audio: Buffer, declaredMimeType?: string): AnswerAudio {
+  if (!audio.length) {
+    throw new ValidationError('Audio payload is empty.');
+  }
+  if (audio.length > MAX_ANSWER_AUDIO_BYTES) {
+    throw new ValidationError(`Audio payload exceeds ${MAX_ANSWER_AUDIO_BYTES / 1024 / 1024} MB.`);
+  }
+
+  const mimeType = detectAudioMimeType(audio);
+  if (!mimeType) {
+    throw new ValidationError(
+      `Unrecognized audio format; supported formats are ${SUPPORTED_AUDIO_MIME_TYPES.join(', ')}.`
+    );
+  }
+
+  const declared = declaredMimeType ? normalizeMimeType(declaredMimeType) : undefined;
+  if (declaredMimeType && declared !== mimeType) {
+    throw new ValidationError(`Audio content is ${mimeType} but was declared as ${declaredMimeType}.`);
+  }
+
+  const wav = mimeType === 'audio/wav' ? readWavLayout(audio) : null;
+  const durationSec = wav?.byteRate
+    ? wav.dataBytes / wav.byteRate
+    : mimeType === 'audio/mpeg'
+      ? mp3DurationSec(audio)
+      : null;
+
+  if (durationSec !== null && durationSec > MAX_ANSWER_DURATION_SEC) {
+    throw new ValidationError(`Answer audio must be at most ${MAX_ANSWER_DURATION_SEC} seconds.`);
+  }
+  if (durationSec !== null && durationSec < MIN_ANSWER_DURATION_SEC) {
+    throw new ValidationError(`Answer audio must be at least ${MIN_ANSWER_DURATION_SEC} seconds.`);
+  }
+
+  const leadingSilenceSec = wav ? wavLeadingSilenceSec(audio, wav) : null;
+
+  return {
+    audio,
+    mimeType,
+    durationSec: durationSec === null ? null : round(durationSec),
+    leadingSilenceSec: leadingSilenceSec === null ? null : round(leadingSilenceSec)
+  };
+}
+
+/** Drops parameters such as `;codecs=opus` and maps common aliases. */
+export function normalizeMimeType(mimeType: string): AudioMimeType | undefined {
+  return MIME_TYPE_ALIASES[mimeType.split(';')[0].trim().toLowerCase()];
+}
+
+function detectAudioMimeType(audio: Buffer): AudioMimeType | null {
+  if (audio.length < 12) {
+    return null;
+  }
+  const ascii = (start: number, end: number) => audio.toString('latin1', start, end);
+
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WAVE') {
+    return 'audio/wav';
+  }
+  if (ascii(0, 3) === 'ID3' || (audio[0] === 0xff && (audio[1] & 0xe0) === 0xe0)) {
+    return 'audio/mpeg';
+  }
+  if (audio.readUInt32BE(0) === 0x1a45dfa3) {
+    return 'audio/webm';
+  }
+  if (ascii(0, 4) === 'OggS') {
+    return 'audio/ogg';
+  }
+  if (ascii(4, 8) === 'ftyp') {
+    return 'audio/mp4';
+  }
+  if (ascii(0, 4) === 'fLaC') {
+    return 'audio/flac';
+  }
+  return null;
+}
+
+function readWavLayout(audio: Buffer): WavLayout | null {
+  let format: Omit<WavLayout, 'dataOffset' | 'dataBytes'> | null = null;
+  for (let offset = 12; offset + 8 <= audio.length; ) {
+    const chunkId = audio.toString('latin1', offset, offset + 4);
+    const chunkSize = audio.readUInt32LE(offset + 4);
+
+    if (chunkId === 'fmt ' && offset + 24 <= audio.length) {
+      format = {
+        audioFormat: audio.readUInt16LE(offset + 8),
+        channels: audio.readUInt16LE(offset + 10),
+        sampleRate: audio.readUInt32LE(offset + 12),
+        byteRate: audio.readUInt32LE(offset + 16),
+        bitsPerSample: audio.readUInt16LE(offset + 22)
+      };
+    } else if (chunkId === 'data') {
+      // Streaming encoders may leave the size unset; fall back to the bytes actually present.
+      const dataBytes = Math.min(chunkSize, audio.length - offset - 8);
+      return format ? { ...format, dataOffset: offset + 8, dataBytes } : null;
+    }
+
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+  return null;
+}
+
+function wavLeadingSilenceSec(audio: Buffer, wav: WavLayout): number | null {
+  if (wav.audioFormat !== 1 || wav.bitsPerSample !== 16 || !wav.channels || !wav.sampleRate) {
+    return null;
+  }
+
+  const frameBytes = Math.max(1, Math.floor((wav.sampleRate * SILENCE_FRAME_MS) / 1000)) * wav.channels * 2;
+  const end = wav.dataOffset + wav.dataBytes - (wav.dataBytes % 2);
+  for (let offset = wav.dataOffset; offset < end; offset += frameBytes) {
+    if (pcmFrameRms(audio.subarray(offset, Math.min(offset + frameBytes, end))) > SILENCE_RMS_THRESHOLD) {
+      return (offset - wav.dataOffset) / wav.byteRate;
+    }
+  }
+  return wav.dataBytes / wav.byteRate;
+}
+
+/** Root mean square of a buffer of 16-bit little-endian samples. */
+export function pcmFrameRms(frame: Buffer): number {
+  const samples = Math.floor(frame.length / 2);
+  if (!samples) {
+    return 0;
+  }
+
+  let sumSquares = 0;
+  for (let index = 0; index < samples * 2; index += 2) {
+    const sample = frame.readInt16LE(index);
+    sumSquares += sample * sample;
+  }
+  return Math.sqrt(sumSquares / samples);
+}
+
+function mp3DurationSec(audio: Buffer): number | null {
+  let offset = 0;
+  if (audio.toString('latin1', 0, 3) === 'ID3' && audio.length >= 10) {
+    // ID3v2 sizes are "syncsafe": 7 bits per byte.
+    offset = 10 + ((audio[6] << 21) | (audio[7] << 14) | (audio[8] << 7) | audio[9]);
+  }
+
+  for (; offset + 4 <= audio.length; offset += 1) {
+    if (audio[offset] !== 0xff || (audio[offset + 1] & 0xe0) !== 0xe0) {
+      continue;
+    }
+    const version = (audio[offset + 1] >> 3) & 0x03;
+    const layer = (audio[offset + 1] >> 1) & 0x03;
+    const bitrateIndex = audio[offset + 2] >> 4;
+    if (layer !== 0x01 || version === 0x01 || bitrateIndex === 0 || bitrateIndex === 0x0f) {
+      continue;
+    }
+
+    const kbps = (version === 0x03 ? MP3_BITRATES_V1 : MP3_BITRATES_V2)[bitrateIndex];
+    return ((audio.length - offset) * 8) / (kbps * 1000);
+  }
+  return null;
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(2));
+}
@@ -0,0 +1,109 @@
+import type {
+  AnswerFluency,
+  AnswerFluencyEntry,
+  FluencySummary,
+  SessionTurn
+} from '../../domain/entities/session.js';
+import type { Transcription } from '../../domain/services/speech-to-text-service.js';
+
+/** A gap between two words at least this long counts as a mid-answer pause. */
+export const MID_ANSWER_PAUSE_SEC = 1;
+
+const FILLER_PHRASES = ['you know', 'i mean', 'sort of', 'kind of', 'um', 'uh', 'er', 'erm', 'hmm', 'like', 'basically'];
+
+/** "like" after these is usually the verb ("I like", "would like"), not a filler. */
+const LIKE_AS_VERB_AFTER = new Set(['i', 'you', 'we', 'they', 'would', "i'd", "don't", "didn't", 'really']);
+
+export function analyzeFluency(
+  transcription: Transcription,
+  audio: { durationSec: number | null; leadingSilenceSec: number | null }
+): AnswerFluency {
+  const tokens = transcription.text.toLowerCase().match(/[a-z']+/g) ?? [];
+  const fillerWords = countFillers(tokens);
+  const { words } = transcription;
+  const durationSec = transcription.durationSec ?? audio.durationSec;
+
+  const speakingSec = words.length
+    ? words[words.length - 1].endSec - words[0].startSec
+    : durationSec === null
+      ? null
+      : durationSec - (audio.leadingSilenceSec ?? 0);
+
+  let midAnswerPauses: number | null = null;
+  if (words.length) {
+    midAnswerPauses = 0;
+    for (let index = 1; index < words.length; index += 1) {
+      if (words[index].startSec - words[index - 1].endSec >= MID_ANSWER_PAUSE_SEC) {
+        midAnswerPauses += 1;
+      }
+    }
+  }
+
+  return {
+    durationSec: durationSec === null ? null : round(durationSec),
+    wordCount: tokens.length,
+    wordsPerMinute: speakingSec && speakingSec >= 1 ? round((tokens.length / speakingSec) * 60) : null,
+    fillerWordCount: Object.values(fillerWords).reduce((a, b) => a + b, 0),
+    fillerWords,
+    midAnswerPauses
+  };
+}
+
+export function summarizeFluency(turns: SessionTurn[]): FluencySummary | null {
+  const answers: AnswerFluencyEntry[] = turns.flatMap((turn, index) => {
+    const entries: AnswerFluencyEntry[] = [];
+    if (turn.mainFluency) {
+      entries.push({ ...turn.mainFluency, questionNumber: index + 1, kind: 'main', followUpRound: null });
+    }
+    turn.followUps.forEach((round, roundIndex) => {
+      if (round.fluency) {
+        entries.push({ ...round.fluency, questionNumber: index + 1, kind: 'follow_up', followUpRound: roundIndex + 1 });
+      }
+    });
+    return entries;
+  });
+
+  if (!answers.length) {
+    return null;
+  }
+
+  const fillerWords: Record<string, number> = {};
+  for (const answer of answers) {
+    for (const [phrase, count] of Object.entries(answer.fillerWords)) {
+      fillerWords[phrase] = (fillerWords[phrase] ?? 0) + count;
+    }
+  }
+
+  const rates = answers.flatMap((answer) => (answer.wordsPerMinute === null ? [] : [answer.wordsPerMinute]));
+  const pauses = answers.flatMap((answer) => (answer.midAnswerPauses === null ? [] : [answer.midAnswerPauses]));
+
+  return {
+    spokenAnswers: answers.length,
+    avgWordsPerMinute: rates.length ? round(rates.reduce((a, b) => a + b, 0) / rates.length) : null,
+    fillerWordCount: answers.reduce((sum, answer) => sum + answer.fillerWordCount, 0),
+    fillerWords,
+    midAnswerPauses: pauses.length ? pauses.reduce((a, b) => a + b, 0) : null,
+    answers
+  };
+}
+
+function countFillers(tokens: string[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (let index = 0; index < tokens.length; index += 1) {
+    const pair = `${tokens[index]} ${tokens[index + 1] ?? ''}`;
+    const phrase = FILLER_PHRASES.find((candidate) =>
+      candidate.includes(' ') ? pair === candidate : tokens[index] === candidate
+    );
+    if (!phrase || (phrase === 'like' && LIKE_AS_VERB_AFTER.has(tokens[index - 1] ?? ''))) {
+      continue;
+    }
+
+    counts[phrase] = (counts[phrase] ?? 0) + 1;
+    index += phrase.split(' ').length - 1;
+  }
+  return counts;
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(2));
+}
@@ -0,0 +1,43 @@
+import type {
+  AssessedWord,
+  PronunciationPracticeWord,
+  PronunciationSummary,
+  SessionTurn
+} from '../../domain/entities/session.js';
+import { speechUrl } from './speech-url.js';
+
+export const MAX_PRACTICE_WORDS = 10;
+
+export function summarizePronunciation(turns: SessionTurn[]): PronunciationSummary | null {
+  const assessed: Array<{ questionNumber: number; words: AssessedWord[] }> = turns.flatMap((turn, index) =>
+    [turn.mainPronunciation, ...turn.followUps.map((round) => round.pronunciation)].flatMap((words) =>
+      words ? [{ questionNumber: index + 1, words }] : []
+    )
+  );
+
+  if (!assessed.length) {
+    return null;
+  }
+
+  const byWord = new Map<string, Omit<PronunciationPracticeWord, 'referenceAudioUrl'>>();
+  for (const { questionNumber, words } of assessed) {
+    for (const { word, confidence } of words) {
+      const entry = byWord.get(word) ?? { word, occurrences: 0, confidence, questionNumbers: [] };
+      entry.occurrences += 1;
+      entry.confidence = Math.min(entry.confidence, confidence);
+      if (!entry.questionNumbers.includes(questionNumber)) {
+        entry.questionNumbers.push(questionNumber);
+      }
+      byWord.set(word, entry);
+    }
+  }
+
+  return {
+    assessedAnswers: assessed.length,
+    flaggedWordCount: assessed.reduce((sum, answer) => sum + answer.words.length, 0),
+    practiceWords: [...byWord.values()]
+      .sort((a, b) => b.occurrences - a.occurrences || a.confidence - b.confidence)
+      .slice(0, MAX_PRACTICE_WORDS)
+      .map((entry) => ({ ...entry, referenceAudioUrl: speechUrl(entry.word) }))
+  };
+}
@@ -0,0 +1,9 @@
+/** Served by `GET /tts`, so the link works with the user's bearer key; keep it to short texts such as single words. */
+export function speechUrl(text: string): string {
+  return `/tts?text=${encodeURIComponent(text)}`;
+}
+
+/** Links an improved answer by position instead of text, so long answers never outgrow the URL. */
+export function improvedAnswerAudioUrl(sessionId: string, answerNumber: number): string {
+  return `/sessions/${sessionId}/improved-answers/${answerNumber}/audio`;
+}
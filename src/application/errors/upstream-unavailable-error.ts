@@ -0,0 +1,11 @@
+/** An AI service timed out, is rate limiting or failing, or is held off by the circuit breaker. */
+export class UpstreamUnavailableError extends Error {
+  constructor(
+    message: string,
+    readonly retryAfterSec: number,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = 'UpstreamUnavailableError';
+  }
+}
@@ -0,0 +1,181 @@
+import { randomUUID } from 'node:crypto';
+import type {
+  NotebookExample,
+  NotebookItem,
+  NotebookItemKind
+} from '../../domain/entities/notebook.js';
+import type { CorrectionCategory, CorrectionItem, InterviewSession } from '../../domain/entities/session.js';
+import type { NotebookRepository } from '../../domain/repositories/notebook-repository.js';
+import { correctionCategory } from '../use-cases/helpers.js';
+import { newReviewSchedule } from './spaced-repetition.js';
+
+/** Examples kept per item; older ones are dropped as new ones come in. */
+export const MAX_NOTEBOOK_EXAMPLES = 5;
+
+interface NotebookEntry {
+  kind: NotebookItemKind;
+  key: string;
+  category: CorrectionCategory | null;
+  original: string | null;
+  improved: string;
+  explanation: string;
+  example: NotebookExample;
+}
+
+/**
+ * Adds the corrections and vocabulary of a session's feedback to the user's
+ * notebook. A mistake or term already in the notebook gains the new example
+ * and comes up for review again; every correction counts as an occurrence.
+ */
+export async function recordNotebookEntries(
+  notebookRepository: NotebookRepository,
+  session: InterviewSession
+): Promise<void> {
+  const now = new Date();
+  for (const entry of collectNotebookEntries(session, now)) {
+    const existing = await notebookRepository.findByKey(session.userId, entry.kind, entry.key);
+    if (!existing) {
+      await notebookRepository.create({
+        id: randomUUID(),
+        userId: session.userId,
+        kind: entry.kind,
+        key: entry.key,
+        category: entry.category,
+        original: entry.original,
+        improved: entry.improved,
+        explanation: entry.explanation,
+        occurrences: 1,
+        examples: [entry.example],
+        review: newReviewSchedule(now),
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString()
+      });
+      continue;
+    }
+
+    // Feedback regenerated after a retry repeats the examples an earlier run recorded.
+    const seen = existing.examples.some(
+      (example) =>
+        example.sessionId === session.id &&
+        example.sentence === entry.example.sentence &&
+        example.seenAt !== entry.example.seenAt
+    );
+    if (seen) {
+      continue;
+    }
+
+    existing.occurrences += 1;
+    existing.examples = [...existing.examples, entry.example].slice(-MAX_NOTEBOOK_EXAMPLES);
+    existing.review = newReviewSchedule(now, existing.review.easeFactor);
+    existing.updatedAt = now.toISOString();
+    await notebookRepository.save(existing);
+  }
+}
+
+function collectNotebookEntries(session: InterviewSession, now: Date): NotebookEntry[] {
+  const result = session.result;
+  if (!result) {
+    return [];
+  }
+
+  const mistakes = result.corrections.map((correction): NotebookEntry => {
+    const category = correctionCategory(correction);
+    const example = findExample(session, correction.questionNumber, correction.original, correction.corrected);
+    return {
+      kind: 'mistake',
+      // Keyed by the wording, so different mistakes the coach explains the same way stay apart.
+      key: `${category}:${normalizePhrase(correction.original)}→${normalizePhrase(correction.corrected)}`,
+      category,
+      original: correction.original,
+      improved: correction.corrected,
+      explanation: correction.reason,
+      example: {
+        sessionId: session.id,
+        questionNumber: correction.questionNumber,
+        sentence: example?.sentence ?? correction.original,
+        improved: example?.improved ?? correction.corrected,
+        seenAt: now.toISOString()
+      }
+    };
+  });
+
+  const vocabulary = (result.vocabulary ?? []).map((suggestion): NotebookEntry => {
+    const example = suggestion.replaces
+      ? findExample(session, suggestion.questionNumber, suggestion.replaces, suggestion.term)
+      : null;
+    return {
+      kind: 'vocabulary',
+      key: normalizeTerm(suggestion.term),
+      category: null,
+      original: suggestion.replaces,
+      improved: suggestion.term,
+      explanation: suggestion.meaning,
+      example: {
+        sessionId: session.id,
+        questionNumber: suggestion.questionNumber,
+        sentence: example?.sentence ?? suggestion.example,
+        improved: example?.improved ?? suggestion.example,
+        seenAt: now.toISOString()
+      }
+    };
+  });
+
+  return [...mistakes, ...vocabulary];
+}
+
+/** The user's sentence that contains `original`, with `replacement` swapped in. */
+function findExample(
+  session: InterviewSession,
+  questionNumber: number | null,
+  original: string,
+  replacement: string
+): { sentence: string; improved: string } | null {
+  const turns = questionNumber === null ? session.turns : session.turns.slice(questionNumber - 1, questionNumber);
+  const corrections = (session.result?.corrections ?? []).filter(
+    (correction) => questionNumber === null || correction.questionNumber === questionNumber
+  );
+  const answers = turns.flatMap((turn) => [
+    turn.answer,
+    ...turn.retries.map((attempt) => attempt.answer),
+    ...turn.followUps.map((round) => round.answer)
+  ]);
+
+  const pattern = new RegExp(escapeRegExp(original.trim()), 'i');
+  for (const sentence of answers.flatMap((answer) => answer.split(/(?<=[.!?])\s+/))) {
+    if (original.trim() && pattern.test(sentence)) {
+      const trimmed = sentence.trim();
+      // The other mistakes the user made in this sentence, never the one just fixed again.
+      const others = corrections.filter(
+        (correction) =>
+          correction.original.trim().toLowerCase() !== original.trim().toLowerCase() &&
+          trimmed.toLowerCase().includes(correction.original.trim().toLowerCase())
+      );
+      return { sentence: trimmed, improved: applyCorrections(trimmed.replace(pattern, replacement), others) };
+    }
+  }
+  return null;
+}
+
+/** Fixes every other mistake found in the sentence too, so the expected answer is fully correct. */
+function applyCorrections(sentence: string, corrections: CorrectionItem[]): string {
+  return corrections.reduce((current, correction) => {
+    const original = correction.original.trim();
+    return original ? current.replace(new RegExp(escapeRegExp(original), 'i'), correction.corrected) : current;
+  }, sentence);
+}
+
+function normalizePhrase(phrase: string): string {
+  return phrase
+    .toLowerCase()
+    .replace(/[^a-z0-9'\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function normalizeTerm(term: string): string {
+  return term.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,42 @@
+import type { ReviewSchedule } from '../../domain/entities/notebook.js';
+
+const INITIAL_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** A schedule that is due right away, for a new or recurring item. */
+export function newReviewSchedule(now: Date, easeFactor = INITIAL_EASE_FACTOR): ReviewSchedule {
+  return {
+    easeFactor,
+    intervalDays: 0,
+    repetitions: 0,
+    dueAt: now.toISOString(),
+    lastReviewedAt: null
+  };
+}
+
+/**
+ * SM-2: a recall graded 3–5 pushes the next review out to 1 day, then 6,
+ * then the previous interval times the ease factor; anything lower starts
+ * the item over at 1 day. Every grade nudges the ease factor, which never
+ * drops below 1.3.
+ */
+export function scheduleReview(schedule: ReviewSchedule, quality: number, now: Date): ReviewSchedule {
+  let { intervalDays, repetitions } = schedule;
+  if (quality >= 3) {
+    intervalDays = repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round(intervalDays * schedule.easeFactor);
+    repetitions += 1;
+  } else {
+    intervalDays = 1;
+    repetitions = 0;
+  }
+
+  const easeFactor = schedule.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02);
+  return {
+    easeFactor: Number(Math.max(MIN_EASE_FACTOR, easeFactor).toFixed(2)),
+    intervalDays,
+    repetitions,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+    lastReviewedAt: now.toISOString()
+  };
+}
@@ -0,0 +1,167 @@
+import {
+  QUESTION_DIFFICULTIES,
+  type Question,
+  type QuestionCategory,
+  type QuestionDifficulty
+} from '../../domain/entities/question.js';
+import type {
+  AnswerRating,
+  InterviewSession,
+  QuestionSelection,
+  SessionQuestion
+} from '../../domain/entities/session.js';
+import { shuffle, toSessionQuestion } from '../use-cases/helpers.js';
+
+/** Ratings at or above this step the difficulty up; at or below WEAK_ANSWER_SCORE, down. */
+const STRONG_ANSWER_SCORE = 4;
+const WEAK_ANSWER_SCORE = 2;
+/** A category whose answers average below this (1–5) is one the user needs to practise. */
+const WEAK_CATEGORY_SCORE = 3;
+/** Strong candidates are stretched with the interview's hardest kind of question. */
+const STRETCH_CATEGORY: QuestionCategory = 'system_design';
+
+interface CategoryScore {
+  category: QuestionCategory;
+  mean: number;
+}
+
+/**
+ * Chooses the question to ask after the answer just given. A strong answer
+ * moves up a difficulty, to a system-design question; a weak one moves down,
+ * to the user's weakest category or else the same category again. Otherwise
+ * the difficulty holds and a weak category gets the practice. Weak categories
+ * come from the rubric scores of `history` and the ratings earlier in this
+ * session. When no unused question fits, the target is relaxed, and when the
+ * bank is exhausted the planned placeholder is kept.
+ */
+export function selectNextQuestion(params: {
+  session: InterviewSession;
+  answered: SessionQuestion;
+  rating: AnswerRating | null;
+  history: InterviewSession[];
+  pool: Question[];
+}): { question: SessionQuestion; selection: QuestionSelection } {
+  const { session, answered, rating } = params;
+  const weakest = weakCategories(params.history, session)[0] ?? null;
+  const weakNote = weakest
+    ? `${label(weakest.category)} is your weakest category so far (${weakest.mean.toFixed(1)}/5)`
+    : null;
+
+  let category: QuestionCategory | null;
+  let difficulty: QuestionDifficulty;
+  let reason: string;
+  if (!rating) {
+    category = weakest?.category ?? null;
+    difficulty = answered.difficulty;
+    reason = joinReasons('The last answer could not be rated, so the difficulty stays the same', weakNote);
+  } else if (rating.score >= STRONG_ANSWER_SCORE) {
+    category = STRETCH_CATEGORY;
+    difficulty = stepDifficulty(answered.difficulty, 1);
+    reason = `Strong answer (${rating.score}/5), so the next question is a ${difficulty} ${label(STRETCH_CATEGORY)} one`;
+  } else if (rating.score <= WEAK_ANSWER_SCORE) {
+    category = weakest?.category ?? answered.category;
+    difficulty = stepDifficulty(answered.difficulty, -1);
+    reason = joinReasons(
+      `Weak answer (${rating.score}/5), so the next question is ${difficulty}`,
+      weakNote ?? `${label(answered.category)} gets another try`
+    );
+  } else {
+    category = weakest?.category ?? null;
+    difficulty = answered.difficulty;
+    reason = joinReasons(`Solid answer (${rating.score}/5), so the difficulty stays the same`, weakNote);
+  }
+
+  // Only the placeholder being replaced is free: a later one may still be reached by a skip and asked as planned.
+  const planned = session.questions[session.questionIndex];
+  const taken = new Set([
+    ...session.questions.filter((_, index) => index !== session.questionIndex).map((question) => question.questionId),
+    ...session.skippedQuestionIds
+  ]);
+  const fresh = params.pool.filter((question) => !taken.has(question.id));
+  // Difficulty matters more than category: it is what the answer quality drives.
+  const picked =
+    find(fresh, category, difficulty) ??
+    find(fresh, null, difficulty) ??
+    find(fresh, category, null) ??
+    shuffle(fresh)[0];
+
+  const question = picked ? toSessionQuestion(picked) : planned;
+  let fallback = '';
+  if (!picked) {
+    fallback = ' No unused question was left in the bank, so the planned question was kept.';
+  } else if (picked.difficulty !== difficulty || (category && picked.category !== category)) {
+    const wanted = `${difficulty}${category ? ` ${label(category)}` : ''} question`;
+    const found = `${article(picked.difficulty)} ${picked.difficulty} ${label(picked.category)} question`;
+    fallback = ` No unused ${wanted} was left, so ${found} was picked.`;
+  }
+
+  return {
+    question,
+    selection: {
+      questionId: question.questionId,
+      category: question.category,
+      difficulty: question.difficulty,
+      rationale: `${reason}.${fallback}`
+    }
+  };
+}
+
+/** Categories averaging below WEAK_CATEGORY_SCORE, weakest first. */
+function weakCategories(history: InterviewSession[], current: InterviewSession): CategoryScore[] {
+  const totals = new Map<QuestionCategory, { sum: number; count: number }>();
+  const add = (category: QuestionCategory | undefined, score: number) => {
+    if (!category) {
+      return;
+    }
+    const total = totals.get(category) ?? { sum: 0, count: 0 };
+    total.sum += score;
+    total.count += 1;
+    totals.set(category, total);
+  };
+  const categoryOf = (session: InterviewSession, questionId: string | undefined) =>
+    session.questions.find((question) => question.questionId === questionId)?.category;
+
+  for (const session of history) {
+    for (const turnScore of session.result?.scores?.turns ?? []) {
+      add(categoryOf(session, session.turns[turnScore.questionNumber - 1]?.questionId), turnScore.overall);
+    }
+  }
+  for (const turn of current.turns) {
+    if (turn.answerRating) {
+      add(categoryOf(current, turn.questionId), turn.answerRating.score);
+    }
+  }
+
+  return [...totals.entries()]
+    .map(([category, total]) => ({ category, mean: total.sum / total.count }))
+    .filter((entry) => entry.mean < WEAK_CATEGORY_SCORE)
+    .sort((a, b) => a.mean - b.mean);
+}
+
+function find(
+  questions: Question[],
+  category: QuestionCategory | null,
+  difficulty: QuestionDifficulty | null
+): Question | undefined {
+  const matching = questions.filter(
+    (question) => (!category || question.category === category) && (!difficulty || question.difficulty === difficulty)
+  );
+  return shuffle(matching)[0];
+}
+
+function stepDifficulty(difficulty: QuestionDifficulty, step: number): QuestionDifficulty {
+  const index = QUESTION_DIFFICULTIES.indexOf(difficulty) + step;
+  return QUESTION_DIFFICULTIES[Math.min(QUESTION_DIFFICULTIES.length - 1, Math.max(0, index))];
+}
+
+function joinReasons(...reasons: Array<string | null>): string {
+  return reasons.filter(Boolean).join('; ');
+}
+
+function article(difficulty: QuestionDifficulty): string {
+  return difficulty === 'easy' ? 'an' : 'a';
+}
+
+function label(category: QuestionCategory): string {
+  return category.replace('_', ' ');
+}
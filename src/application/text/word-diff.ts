@@ -0,0 +1,58 @@
+import type { AnswerDiffSpan } from '../../domain/entities/session.js';
+
+/**
+ * Word-level diff via longest common subsequence. Words are aligned ignoring
+ * case and surrounding punctuation so a new comma does not derail the match,
+ * though a fixed word is still shown as removed and added. Joining the
+ * `same` and `removed` spans with spaces rebuilds the original; `same` and
+ * `added` rebuild the improved answer.
+ */
+export function diffWords(original: string, improved: string): AnswerDiffSpan[] {
+  const before = original.split(/\s+/).filter(Boolean);
+  const after = improved.split(/\s+/).filter(Boolean);
+  const key = (word: string) => word.toLowerCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+
+  // lengths[i][j] = LCS length of before[i..] and after[j..].
+  const lengths = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i -= 1) {
+    for (let j = after.length - 1; j >= 0; j -= 1) {
+      lengths[i][j] =
+        key(before[i]) === key(after[j])
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const spans: AnswerDiffSpan[] = [];
+  const push = (type: AnswerDiffSpan['type'], word: string) => {
+    const last = spans[spans.length - 1];
+    if (last?.type === type) {
+      last.text += ` ${word}`;
+    } else {
+      spans.push({ type, text: word });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && key(before[i]) === key(after[j])) {
+      if (before[i] === after[j]) {
+        push('same', after[j]);
+      } else {
+        // Same word, different case or punctuation: still worth showing.
+        push('removed', before[i]);
+        push('added', after[j]);
+      }
+      i += 1;
+      j += 1;
+    } else if (i < before.length && (j === after.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      push('removed', before[i]);
+      i += 1;
+    } else {
+      push('added', after[j]);
+      j += 1;
+    }
+  }
+  return spans;
+}
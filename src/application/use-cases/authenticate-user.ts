@@ -0,0 +1,16 @@
+import type { User } from '../../domain/entities/user.js';
+import type { UserRepository } from '../../domain/repositories/user-repository.js';
+import { UnauthorizedError } from '../errors/unauthorized-error.js';
+import { hashApiKey } from './helpers.js';
+
+export class AuthenticateUserUseCase {
+  constructor(private readonly userRepository: UserRepository) {}
+
+  async execute(input: { apiKey: string }): Promise<User> {
+    const user = await this.userRepository.findByApiKeyHash(hashApiKey(input.apiKey));
+    if (!user) {
+      throw new UnauthorizedError('API key is invalid.');
+    }
+    return user;
+  }
+}
@@ -0,0 +1,36 @@
+import { randomUUID } from 'node:crypto';
+import type { Question, QuestionCategory, QuestionDifficulty } from '../../domain/entities/question.js';
+import type { QuestionRepository } from '../../domain/repositories/question-repository.js';
+import { ValidationError } from '../errors/validation-error.js';
+import { normalizeTags } from './helpers.js';
+
+export class CreateQuestionUseCase {
+  constructor(private readonly questionRepository: QuestionRepository) {}
+
+  async execute(input: {
+    text: string;
+    category: QuestionCategory;
+    difficulty: QuestionDifficulty;
+    tags?: string[];
+  }): Promise<Question> {
+    const text = input.text.trim();
+    if (!text) {
+      throw new ValidationError('Question text must not be empty.');
+    }
+
+    const now = new Date().toISOString();
+    const question: Question = {
+      id: randomUUID(),
+      text,
+      category: input.category,
+      difficulty: input.difficulty,
+      tags: normalizeTags(input.tags ?? []),
+      retired: false,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.questionRepository.create(question);
+    return question;
+  }
+}
@@ -1,30 +1,139 @@
 import { randomUUID } from 'node:crypto';
-import { QUESTION_BANK } from '../../domain/entities/question-bank.js';
+import {
+  DEFAULT_INTERVIEWER_PERSONA,
+  INTERVIEWER_PERSONA_ROLES,
+  type InterviewerPersona,
+  type InterviewTemplate
+} from '../../domain/entities/interview-template.js';
+import type { Question, QuestionCategory, QuestionDifficulty } from '../../domain/entities/question.js';
 import type { InterviewSession } from '../../domain/entities/session.js';
+import type { QuestionRepository } from '../../domain/repositories/question-repository.js';
 import type { SessionRepository } from '../../domain/repositories/session-repository.js';
+import type { TemplateRepository } from '../../domain/repositories/template-repository.js';
+import { NotFoundError } from '../errors/not-found-error.js';
+import { ValidationError } from '../errors/validation-error.js';
+import { shuffle, toSessionQuestion } from './helpers.js';
+
+export interface CreateSessionInput {
+  userId: string;
+  templateId?: string;
+  questionCount?: number;
+  /** Shorthand kept for older clients: false means no follow-ups, true the default depth. */
+  allowFollowUps?: boolean;
+  /** Follow-up rounds per question, up to MAX_FOLLOW_UP_ROUNDS. */
+  maxFollowUps?: number;
+  interviewerPersona?: InterviewerPersona;
+  coachMode?: boolean;
+  /** Choose each next question from the previous answer; see selectNextQuestion. */
+  adaptive?: boolean;
+  categories?: QuestionCategory[];
+  difficulties?: QuestionDifficulty[];
+}
 
 export class CreateSessionUseCase {
-  constructor(private readonly sessionRepository: SessionRepository) {}
+  constructor(
+    private readonly sessionRepository: SessionRepository,
+    private readonly questionRepository: QuestionRepository,
+    private readonly templateRepository: TemplateRepository
+  ) {}
 
-  async execute(input: { questionCount?: number; allowFollowUps?: boolean }): Promise<InterviewSession> {
-    const requestedCount = input.questionCount ?? 3;
-    const questionCount = Math.max(1, Math.min(requestedCount, QUESTION_BANK.length));
-    const allowFollowUps = input.allowFollowUps ?? true;
+  async execute(input: CreateSessionInput): Promise<InterviewSession> {
+    if (input.adaptive && (input.templateId || input.categories || input.difficulties)) {
+      throw new ValidationError('adaptive cannot be combined with templateId, categories or difficulties.');
+    }
+    if (input.allowFollowUps === false && input.maxFollowUps) {
+      throw new ValidationError('maxFollowUps cannot be set when allowFollowUps is false.');
+    }
+    const template = input.templateId ? await this.findTemplate(input.templateId, input) : null;
+    const questions = template
+      ? await this.pickTemplateQuestions(template)
+      : await this.pickQuestions(input);
 
+    const interviewerPersona = input.interviewerPersona ?? DEFAULT_INTERVIEWER_PERSONA;
+    const createdAt = new Date().toISOString();
     const session: InterviewSession = {
       id: randomUUID(),
-      createdAt: new Date().toISOString(),
+      version: 0,
+      userId: input.userId,
+      createdAt,
+      updatedAt: createdAt,
       status: 'in_progress',
-      allowFollowUps,
-      questions: QUESTION_BANK.slice(0, questionCount),
+      templateId: template?.id ?? null,
+      coachPersona: template?.coachPersona ?? INTERVIEWER_PERSONA_ROLES[interviewerPersona],
+      interviewerPersona,
+      timeLimits: template?.timeLimits ?? null,
+      maxFollowUps: input.allowFollowUps === false ? 0 : (input.maxFollowUps ?? template?.maxFollowUps ?? 1),
+      coachMode: input.coachMode ?? false,
+      adaptive: input.adaptive ?? false,
+      questions: questions.map(toSessionQuestion),
       questionIndex: 0,
+      skippedQuestionIds: [],
       awaitingFollowUp: false,
       pendingFollowUpQuestion: null,
+      retryQuestionNumber: null,
+      promptServedAt: createdAt,
       turns: [],
-      result: null
+      result: null,
+      feedbackGeneration: null
     };
 
     await this.sessionRepository.create(session);
     return session;
   }
+
+  private async findTemplate(
+    templateId: string,
+    input: CreateSessionInput
+  ): Promise<InterviewTemplate> {
+    if (input.questionCount !== undefined || input.categories || input.difficulties) {
+      throw new ValidationError(
+        'templateId cannot be combined with questionCount, categories or difficulties.'
+      );
+    }
+
+    const template = await this.templateRepository.findById(templateId);
+    if (!template) {
+      throw new NotFoundError('Interview template not found.');
+    }
+    return template;
+  }
+
+  private async pickQuestions(input: CreateSessionInput): Promise<Question[]> {
+    const pool = await this.questionRepository.list({
+      categories: input.categories,
+      difficulties: input.difficulties
+    });
+    if (!pool.length) {
+      throw new ValidationError('No active questions match the requested categories/difficulties.');
+    }
+
+    const requestedCount = input.questionCount ?? 3;
+    const questionCount = Math.max(1, Math.min(requestedCount, pool.length));
+    const shuffled = shuffle(pool);
+    // Adaptive sessions open on a medium question when there is one; the rest are replaced as they go,
+    // so the session is still sized from the whole pool.
+    const mediumIndex = shuffled.findIndex((question) => question.difficulty === 'medium');
+    const openerIndex = input.adaptive ? Math.max(0, mediumIndex) : 0;
+    const [opener] = shuffled.splice(openerIndex, 1);
+    return [opener, ...shuffled].slice(0, questionCount);
+  }
+
+  private async pickTemplateQuestions(template: InterviewTemplate): Promise<Question[]> {
+    const picked: Question[] = [];
+
+    for (const entry of template.questionMix) {
+      const pool = await this.questionRepository.list({
+        categories: [entry.category],
+        difficulties: entry.difficulties,
+        tags: entry.tags
+      });
+      const fresh = pool.filter((question) => !picked.some((item) => item.id === question.id));
+      picked.push(...shuffle(fresh).slice(0, entry.count));
+    }
+
+    if (!picked.length) {
+      throw new ValidationError('No active questions match this interview template.');
+    }
+    return picked;
+  }
 }
@@ -0,0 +1,36 @@
+import { randomBytes, randomUUID } from 'node:crypto';
+import type { User } from '../../domain/entities/user.js';
+import type { UserRepository } from '../../domain/repositories/user-repository.js';
+import { ValidationError } from '../errors/validation-error.js';
+import { hashApiKey } from './helpers.js';
+
+export interface CreatedUser {
+  user: Omit<User, 'apiKeyHash'>;
+  /** Returned only once; only its hash is stored. */
+  apiKey: string;
+}
+
+export class CreateUserUseCase {
+  constructor(private readonly userRepository: UserRepository) {}
+
+  async execute(input: { name: string }): Promise<CreatedUser> {
+    const name = input.name.trim();
+    if (!name) {
+      throw new ValidationError('User name must not be empty.');
+    }
+
+    const apiKey = `bek_${randomBytes(24).toString('base64url')}`;
+    const user: User = {
+      id: randomUUID(),
+      name,
+      apiKeyHash: hashApiKey(apiKey),
+      createdAt: new Date().toISOString()
+    };
+
+    await this.userRepository.create(user);
+    return {
+      user: { id: user.id, name: user.name, createdAt: user.createdAt },
+      apiKey
+    };
+  }
+}
@@ -0,0 +1,51 @@
+import type { SessionRepository } from '../../domain/repositories/session-repository.js';
+import type { JobQueue } from '../../domain/services/job-queue.js';
+import type { SessionResultView } from './get-session-result.js';
+import {
+  assertInProgress,
+  enqueueFeedbackJob,
+  loadOwnedSession,
+  startFeedbackGeneration,
+  type FeedbackJob
+} from './helpers.js';
+
+export class EndSessionUseCase {
+  constructor(
+    private readonly sessionRepository: SessionRepository,
+    private readonly feedbackQueue: JobQueue<FeedbackJob>
+  ) {}
+
+  /**
+   * Stops the interview early and abandons it. With answered turns, partial
+   * feedback over them is queued first and the session is abandoned once it is
+   * written. Ending during a retry of a finished interview only drops the
+   * retry; it stays completed.
+   */
+  async execute(input: { sessionId: string; userId: string }): Promise<SessionResultView> {
+    const session = await loadOwnedSession(this.sessionRepository, input);
+    assertInProgress(session);
+
+    session.retryQuestionNumber = null;
+    session.awaitingFollowUp = false;
+    session.pendingFollowUpQuestion = null;
+    session.promptServedAt = null;
+
+    if (session.questionIndex >= session.questions.length && session.result) {
+      session.status = 'completed';
+    } else if (session.turns.length) {
+      startFeedbackGeneration(session, 'abandoned');
+    } else {
+      session.status = 'abandoned';
+    }
+
+    await this.sessionRepository.save(session);
+    await enqueueFeedbackJob(this.feedbackQueue, session);
+
+    return {
+      sessionId: session.id,
+      status: session.status,
+      result: session.result,
+      feedbackGeneration: session.feedbackGeneration
+    };
+  }
+}
@@ -0,0 +1,99 @@
+import type { InterviewSession } from '../../domain/entities/session.js';
+import type { NotebookRepository } from '../../domain/repositories/notebook-repository.js';
+import type { SessionRepository } from '../../domain/repositories/session-repository.js';
+import type { InterviewCoachService } from '../../domain/services/interview-coach-service.js';
+import type { JobQueue } from '../../domain/services/job-queue.js';
+import { UpstreamUnavailableError } from '../errors/upstream-unavailable-error.js';
+import { recordNotebookEntries } from '../notebook/notebook-entries.js';
+import { generateSessionFeedback, type FeedbackJob } from './helpers.js';
+
+/** Attempts per job before it is marked failed and left for the user to retry. */
+export const MAX_FEEDBACK_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 5_000;
+
+/** The worker side of the feedback queue. */
+export class GenerateSessionFeedbackUseCase {
+  constructor(
+    private readonly sessionRepository: SessionRepository,
+    private readonly interviewCoachService: InterviewCoachService,
+    private readonly feedbackQueue: JobQueue<FeedbackJob>,
+    private readonly notebookRepository: NotebookRepository
+  ) {}
+
+  /**
+   * Writes the session's final feedback and moves it to its final status. An
+   * unavailable coach is retried with backoff up to MAX_FEEDBACK_ATTEMPTS;
+   * after that, or on any other error, the job is marked failed. The
+   * feedback's corrections and vocabulary go into the user's notebook before
+   * the session is finished, so a failed notebook write fails the job and is
+   * retried with it; entries already recorded are not added twice.
+   */
+  async execute(job: FeedbackJob): Promise<void> {
+    const session = await this.sessionRepository.findById(job.sessionId);
+    const generation = session?.feedbackGeneration;
+    // Redelivered jobs and jobs for sessions that moved on have nothing left to do.
+    if (!session || session.status !== 'generating_feedback' || !generation || generation.state === 'failed') {
+      return;
+    }
+
+    generation.state = 'running';
+    generation.attempts += 1;
+    generation.nextAttemptAt = null;
+    await this.sessionRepository.save(session);
+
+    try {
+      session.result = await generateSessionFeedback(this.interviewCoachService, session);
+      await recordNotebookEntries(this.notebookRepository, session);
+    } catch (error) {
+      await this.recordFailure(session, error);
+      if (!(error instanceof UpstreamUnavailableError)) {
+        throw error;
+      }
+      return;
+    }
+
+    session.status = generation.completesAs;
+    session.feedbackGeneration = null;
+    await this.sessionRepository.save(session);
+  }
+
+  /** Queues the jobs of sessions still waiting on feedback, e.g. after a restart. */
+  async resumePending(): Promise<number> {
+    const sessionIds = await this.sessionRepository.findIdsByStatus('generating_feedback');
+    let resumed = 0;
+    for (const sessionId of sessionIds) {
+      const generation = (await this.sessionRepository.findById(sessionId))?.feedbackGeneration;
+      if (!generation || generation.state === 'failed') {
+        continue;
+      }
+
+      const delayMs = generation.nextAttemptAt ? Date.parse(generation.nextAttemptAt) - Date.now() : 0;
+      await this.feedbackQueue.enqueue({ sessionId }, { delayMs: Math.max(0, delayMs) });
+      resumed += 1;
+    }
+    return resumed;
+  }
+
+  private async recordFailure(session: InterviewSession, error: unknown): Promise<void> {
+    const generation = session.feedbackGeneration;
+    if (!generation) {
+      return;
+    }
+
+    // Only upstream messages are meant for users; anything else is an internal error.
+    generation.lastError =
+      error instanceof UpstreamUnavailableError ? error.message : 'Feedback generation failed unexpectedly.';
+
+    if (error instanceof UpstreamUnavailableError && generation.attempts < MAX_FEEDBACK_ATTEMPTS) {
+      const delayMs = Math.max(error.retryAfterSec * 1000, RETRY_BASE_DELAY_MS * 2 ** (generation.attempts - 1));
+      generation.state = 'queued';
+      generation.nextAttemptAt = new Date(Date.now() + delayMs).toISOString();
+      await this.sessionRepository.save(session);
+      await this.feedbackQueue.enqueue({ sessionId: session.id }, { delayMs });
+      return;
+    }
+
+    generation.state = 'failed';
+    await this.sessionRepository.save(session);
+  }
+}
@@ -1,53 +1,86 @@
+import type { InterviewSession, SessionStatus } from '../../domain/entities/session.js';
 import type { SessionRepository } from '../../domain/repositories/session-repository.js';
-import { NotFoundError } from '../errors/not-found-error.js';
+import { loadOwnedSession } from './helpers.js';
 
 export interface CurrentPromptResult {
   sessionId: string;
-  status: 'in_progress' | 'completed';
+  status: SessionStatus;
   prompt: string | null;
-  promptType: 'question' | 'follow_up' | 'completed';
+  promptType: 'question' | 'follow_up' | 'retry' | 'completed';
+  /** Position in the planned questions, for progress such as "3 of 5"; skipped questions count. */
   questionNumber: number;
   totalQuestions: number;
+  /**
+   * The answered-question number the answer is recorded under: the number retries,
+   * corrections and scores use. Skipped questions get none, so after a skip it
+   * trails questionNumber. Null once the session has ended.
+   */
+  turnNumber: number | null;
 }
 
 export class GetCurrentPromptUseCase {
   constructor(private readonly sessionRepository: SessionRepository) {}
 
-  async execute(input: { sessionId: string }): Promise<CurrentPromptResult> {
-    const session = await this.sessionRepository.findById(input.sessionId);
-    if (!session) {
-      throw new NotFoundError('Session not found.');
-    }
+  async execute(input: { sessionId: string; userId: string }): Promise<CurrentPromptResult> {
+    const session = await loadOwnedSession(this.sessionRepository, input);
 
-    if (session.status === 'completed') {
-      return {
-        sessionId: session.id,
-        status: session.status,
-        prompt: null,
-        promptType: 'completed',
-        questionNumber: session.questions.length,
-        totalQuestions: session.questions.length
-      };
+    // Paused sessions, and ones started before prompts were timestamped, restart the clock on view.
+    if (session.status === 'in_progress' && !session.promptServedAt) {
+      session.promptServedAt = new Date().toISOString();
+      await this.sessionRepository.save(session);
     }
 
-    if (session.awaitingFollowUp && session.pendingFollowUpQuestion) {
-      return {
-        sessionId: session.id,
-        status: session.status,
-        prompt: session.pendingFollowUpQuestion,
-        promptType: 'follow_up',
-        questionNumber: session.questionIndex + 1,
-        totalQuestions: session.questions.length
-      };
-    }
+    return describeCurrentPrompt(session);
+  }
+}
 
+/** The prompt a session is waiting on; ended sessions have none. */
+export function describeCurrentPrompt(session: InterviewSession): CurrentPromptResult {
+  if (session.status !== 'in_progress') {
     return {
       sessionId: session.id,
       status: session.status,
-      prompt: session.questions[session.questionIndex],
-      promptType: 'question',
+      prompt: null,
+      promptType: 'completed',
+      questionNumber: session.questions.length,
+      totalQuestions: session.questions.length,
+      turnNumber: null
+    };
+  }
+
+  if (session.retryQuestionNumber !== null) {
+    const turn = session.turns[session.retryQuestionNumber - 1];
+    const position = session.questions.findIndex((question) => question.questionId === turn.questionId);
+    return {
+      sessionId: session.id,
+      status: session.status,
+      prompt: turn.question,
+      promptType: 'retry',
+      questionNumber: position >= 0 ? position + 1 : session.retryQuestionNumber,
+      totalQuestions: session.questions.length,
+      turnNumber: session.retryQuestionNumber
+    };
+  }
+
+  if (session.awaitingFollowUp && session.pendingFollowUpQuestion) {
+    return {
+      sessionId: session.id,
+      status: session.status,
+      prompt: session.pendingFollowUpQuestion,
+      promptType: 'follow_up',
       questionNumber: session.questionIndex + 1,
-      totalQuestions: session.questions.length
+      totalQuestions: session.questions.length,
+      turnNumber: session.turns.length
     };
   }
+
+  return {
+    sessionId: session.id,
+    status: session.status,
+    prompt: session.questions[session.questionIndex].text,
+    promptType: 'question',
+    questionNumber: session.questionIndex + 1,
+    totalQuestions: session.questions.length,
+    turnNumber: session.turns.length + 1
+  };
 }
@@ -0,0 +1,301 @@
+import type { QuestionCategory } from '../../domain/entities/question.js';
+import {
+  CEFR_LEVELS,
+  CORRECTION_CATEGORIES,
+  type CefrLevel,
+  type CorrectionCategory,
+  type CorrectionItem,
+  type InterviewFeedback,
+  type InterviewSession,
+  type ProficiencySkill
+} from '../../domain/entities/session.js';
+import type { SessionRepository } from '../../domain/repositories/session-repository.js';
+import { correctionCategory, LONG_PAUSE_SEC, normalizeReason } from './helpers.js';
+
+export interface WeeklyProgress {
+  weekStart: string;
+  sessions: number;
+  totalTurns: number;
+  avgResponseDelaySec: number;
+  longPausesCount: number;
+  correctionsPerTurn: number;
+  correctionsByCategory: Record<CorrectionCategory, number>;
+}
+
+export interface QuestionCategoryProgress {
+  category: QuestionCategory;
+  totalTurns: number;
+  avgResponseDelaySec: number;
+  longPausesCount: number;
+  corrections: number;
+}
+
+export interface RecurringMistake {
+  category: CorrectionCategory;
+  reason: string;
+  occurrences: number;
+  sessions: number;
+  examples: Array<{ original: string; corrected: string }>;
+}
+
+export interface ProficiencyPoint {
+  sessionId: string;
+  createdAt: string;
+  level: CefrLevel;
+  skills: Record<ProficiencySkill, CefrLevel>;
+}
+
+export interface ProficiencyProgress {
+  /** Level of the latest assessed session; null before the first one. */
+  currentLevel: CefrLevel | null;
+  /** One point per assessed session, oldest first. */
+  history: ProficiencyPoint[];
+}
+
+export interface ProgressTrend {
+  /** Latest week minus earliest week; null until there are two weeks of data. */
+  avgResponseDelaySec: number | null;
+  longPausesPerTurn: number | null;
+  correctionsPerTurn: number | null;
+  /** CEFR levels gained (negative if lost) from the first assessed session to the latest. */
+  cefrLevels: number | null;
+}
+
+export interface ProgressReport {
+  completedSessions: number;
+  weekly: WeeklyProgress[];
+  byQuestionCategory: QuestionCategoryProgress[];
+  recurringMistakes: RecurringMistake[];
+  proficiency: ProficiencyProgress;
+  trend: ProgressTrend;
+}
+
+type CompletedSession = InterviewSession & { result: InterviewFeedback };
+
+const PAGE_SIZE = 100;
+const MAX_RECURRING_MISTAKES = 5;
+const MAX_EXAMPLES = 3;
+
+export class GetProgressUseCase {
+  constructor(private readonly sessionRepository: SessionRepository) {}
+
+  async execute(input: { userId: string; weeks?: number }): Promise<ProgressReport> {
+    const since = startOfWeek(new Date(Date.now() - ((input.weeks ?? 12) - 1) * 7 * 86_400_000));
+    const sessions = (await this.loadCompletedSessions(input.userId)).filter(
+      (session) => new Date(session.createdAt) >= since
+    );
+
+    const weekly = buildWeekly(sessions);
+    const proficiency = buildProficiency(sessions);
+
+    return {
+      completedSessions: sessions.length,
+      weekly,
+      byQuestionCategory: buildByQuestionCategory(sessions),
+      recurringMistakes: findRecurringMistakes(sessions),
+      proficiency,
+      trend: buildTrend(weekly, proficiency.history)
+    };
+  }
+
+  private async loadCompletedSessions(userId: string): Promise<CompletedSession[]> {
+    const sessions: InterviewSession[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page = await this.sessionRepository.listByUser({
+        userId,
+        status: 'completed',
+        limit: PAGE_SIZE,
+        offset
+      });
+      sessions.push(...page.items);
+      if (offset + PAGE_SIZE >= page.total) {
+        return sessions.filter((session): session is CompletedSession => session.result !== null);
+      }
+    }
+  }
+}
+
+function buildWeekly(sessions: CompletedSession[]): WeeklyProgress[] {
+  const byWeek = new Map<string, CompletedSession[]>();
+  for (const session of sessions) {
+    const weekStart = startOfWeek(new Date(session.createdAt)).toISOString().slice(0, 10);
+    byWeek.set(weekStart, [...(byWeek.get(weekStart) ?? []), session]);
+  }
+
+  return [...byWeek.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([weekStart, weekSessions]) => {
+      let totalTurns = 0;
+      let delaySum = 0;
+      let longPausesCount = 0;
+      const correctionsByCategory = emptyCategoryCounts();
+      let corrections = 0;
+
+      for (const session of weekSessions) {
+        const { timingSummary } = session.result;
+        totalTurns += timingSummary.totalTurns;
+        delaySum += timingSummary.avgResponseDelaySec * timingSummary.totalTurns;
+        longPausesCount += timingSummary.longPausesCount;
+        for (const correction of session.result.corrections) {
+          correctionsByCategory[correctionCategory(correction)] += 1;
+          corrections += 1;
+        }
+      }
+
+      return {
+        weekStart,
+        sessions: weekSessions.length,
+        totalTurns,
+        avgResponseDelaySec: round(totalTurns ? delaySum / totalTurns : 0),
+        longPausesCount,
+        correctionsPerTurn: round(totalTurns ? corrections / totalTurns : 0),
+        correctionsByCategory
+      };
+    });
+}
+
+function buildByQuestionCategory(sessions: CompletedSession[]): QuestionCategoryProgress[] {
+  const stats = new Map<QuestionCategory, { delays: number[]; corrections: number }>();
+  const statsFor = (category: QuestionCategory) => {
+    const existing = stats.get(category);
+    if (existing) {
+      return existing;
+    }
+    const created = { delays: [] as number[], corrections: 0 };
+    stats.set(category, created);
+    return created;
+  };
+
+  for (const session of sessions) {
+    const categoryOfTurn = session.turns.map(
+      (turn) => session.questions.find((question) => question.questionId === turn.questionId)?.category
+    );
+
+    session.turns.forEach((turn, index) => {
+      const category = categoryOfTurn[index];
+      if (!category) {
+        return;
+      }
+      const entry = statsFor(category);
+      entry.delays.push(turn.mainResponseDelaySec, ...turn.followUps.map((round) => round.responseDelaySec));
+    });
+
+    for (const correction of session.result.corrections) {
+      const category = correction.questionNumber ? categoryOfTurn[correction.questionNumber - 1] : undefined;
+      if (category) {
+        statsFor(category).corrections += 1;
+      }
+    }
+  }
+
+  return [...stats.entries()].map(([category, entry]) => ({
+    category,
+    totalTurns: entry.delays.length,
+    avgResponseDelaySec: round(
+      entry.delays.length ? entry.delays.reduce((a, b) => a + b, 0) / entry.delays.length : 0
+    ),
+    longPausesCount: entry.delays.filter((delay) => delay > LONG_PAUSE_SEC).length,
+    corrections: entry.corrections
+  }));
+}
+
+function findRecurringMistakes(sessions: CompletedSession[]): RecurringMistake[] {
+  const groups = new Map<
+    string,
+    { category: CorrectionCategory; reason: string; items: CorrectionItem[]; sessionIds: Set<string> }
+  >();
+
+  for (const session of sessions) {
+    for (const correction of session.result.corrections) {
+      const category = correctionCategory(correction);
+      const key = `${category}:${normalizeReason(correction.reason)}`;
+      const group = groups.get(key) ?? {
+        category,
+        reason: correction.reason,
+        items: [],
+        sessionIds: new Set<string>()
+      };
+      group.items.push(correction);
+      group.sessionIds.add(session.id);
+      groups.set(key, group);
+    }
+  }
+
+  return [...groups.values()]
+    .filter((group) => group.sessionIds.size > 1)
+    .sort((a, b) => b.sessionIds.size - a.sessionIds.size || b.items.length - a.items.length)
+    .slice(0, MAX_RECURRING_MISTAKES)
+    .map((group) => ({
+      category: group.category,
+      reason: group.reason,
+      occurrences: group.items.length,
+      sessions: group.sessionIds.size,
+      examples: [...new Map(group.items.map((item) => [item.original, item])).values()]
+        .slice(-MAX_EXAMPLES)
+        .map((item) => ({ original: item.original, corrected: item.corrected }))
+    }));
+}
+
+/** Feedback generated before the proficiency assessment existed has none and is left out. */
+function buildProficiency(sessions: CompletedSession[]): ProficiencyProgress {
+  const history = sessions
+    .flatMap((session) => {
+      const proficiency = session.result.proficiency;
+      if (!proficiency) {
+        return [];
+      }
+      const skills = Object.fromEntries(proficiency.skills.map((item) => [item.skill, item.level]));
+      return [
+        {
+          sessionId: session.id,
+          createdAt: session.createdAt,
+          level: proficiency.level,
+          skills: skills as Record<ProficiencySkill, CefrLevel>
+        }
+      ];
+    })
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  return { currentLevel: history[history.length - 1]?.level ?? null, history };
+}
+
+function buildTrend(weekly: WeeklyProgress[], proficiencyHistory: ProficiencyPoint[]): ProgressTrend {
+  const cefrLevels =
+    proficiencyHistory.length < 2
+      ? null
+      : CEFR_LEVELS.indexOf(proficiencyHistory[proficiencyHistory.length - 1].level) -
+        CEFR_LEVELS.indexOf(proficiencyHistory[0].level);
+
+  if (weekly.length < 2) {
+    return { avgResponseDelaySec: null, longPausesPerTurn: null, correctionsPerTurn: null, cefrLevels };
+  }
+
+  const first = weekly[0];
+  const last = weekly[weekly.length - 1];
+  const pausesPerTurn = (week: WeeklyProgress) => (week.totalTurns ? week.longPausesCount / week.totalTurns : 0);
+
+  return {
+    avgResponseDelaySec: round(last.avgResponseDelaySec - first.avgResponseDelaySec),
+    longPausesPerTurn: round(pausesPerTurn(last) - pausesPerTurn(first)),
+    correctionsPerTurn: round(last.correctionsPerTurn - first.correctionsPerTurn),
+    cefrLevels
+  };
+}
+
+function emptyCategoryCounts(): Record<CorrectionCategory, number> {
+  return Object.fromEntries(CORRECTION_CATEGORIES.map((category) => [category, 0])) as Record<
+    CorrectionCategory,
+    number
+  >;
+}
+
+/** Monday 00:00 UTC of the week containing `date`. */
+function startOfWeek(date: Date): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  return start;
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(2));
+}
@@ -0,0 +1,85 @@
+import type { NotebookItem } from '../../domain/entities/notebook.js';
+import type { NotebookRepository } from '../../domain/repositories/notebook-repository.js';
+import { escapeRegExp } from '../notebook/notebook-entries.js';
+
+/** A short exercise built from one notebook item. */
+export interface ReviewQuiz {
+  prompt: string;
+  answer: string;
+  hint: string;
+}
+
+export interface ReviewCard extends NotebookItem {
+  quiz: ReviewQuiz;
+}
+
+export interface ReviewQueue {
+  items: ReviewCard[];
+  /** All items due now, including those past `limit`. */
+  total: number;
+}
+
+const BLANK = '____';
+
+export class GetReviewQueueUseCase {
+  constructor(private readonly notebookRepository: NotebookRepository) {}
+
+  /** The notebook items due for review, soonest due first, each with a quiz. */
+  async execute(input: { userId: string; limit?: number }): Promise<ReviewQueue> {
+    const page = await this.notebookRepository.list({
+      userId: input.userId,
+      dueAt: new Date().toISOString(),
+      limit: input.limit ?? 10,
+      offset: 0
+    });
+
+    return {
+      items: page.items.map((item) => ({ ...item, quiz: buildQuiz(item) })),
+      total: page.total
+    };
+  }
+}
+
+/**
+ * Mistakes are quizzed on the user's own sentences, rotating through the
+ * examples as reviews succeed. Terms that replace plainer wording are quizzed
+ * as a rephrase of a sentence that used it; the rest as a fill-in-the-blank.
+ */
+function buildQuiz(item: NotebookItem): ReviewQuiz {
+  // Examples the improvement left unchanged are the coach's own sentences.
+  const rewrites = item.examples.filter((candidate) => candidate.sentence !== candidate.improved);
+  const rotate = <T>(items: T[]): T => items[item.review.repetitions % items.length];
+
+  if (item.kind === 'mistake') {
+    const example = rotate(rewrites.length ? rewrites : item.examples);
+    return {
+      prompt: `Correct the mistake in this sentence you said: "${example.sentence}"`,
+      answer: example.improved,
+      hint: item.explanation
+    };
+  }
+
+  if (item.original && rewrites.length) {
+    const example = rotate(rewrites);
+    return {
+      prompt: `Say this again with a more precise word or phrase for "${item.original}": "${example.sentence}"`,
+      answer: example.improved,
+      hint: item.explanation
+    };
+  }
+
+  const example = rotate(item.examples);
+  const term = new RegExp(escapeRegExp(item.improved), 'i');
+  if (term.test(example.sentence)) {
+    return {
+      prompt: `Fill in the blank: "${example.sentence.replace(term, BLANK)}"`,
+      answer: item.improved,
+      hint: item.explanation
+    };
+  }
+  return {
+    prompt: `Which word or phrase means: ${item.explanation}?`,
+    answer: item.improved,
+    hint: `It starts with "${item.improved.charAt(0)}".`
+  };
+}
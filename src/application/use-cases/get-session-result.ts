@@ -1,26 +1,26 @@
-import type { InterviewFeedback } from '../../domain/entities/session.js';
+import type { FeedbackGeneration, InterviewFeedback, SessionStatus } from '../../domain/entities/session.js';
 import type { SessionRepository } from '../../domain/repositories/session-repository.js';
-import { NotFoundError } from '../errors/not-found-error.js';
+import { loadOwnedSession } from './helpers.js';
 
 export interface SessionResultView {
   sessionId: string;
-  status: 'in_progress' | 'completed';
+  status: SessionStatus;
   result: InterviewFeedback | null;
+  /** Progress of the feedback job while the status is `generating_feedback`. */
+  feedbackGeneration: FeedbackGeneration | null;
 }
 
 export class GetSessionResultUseCase {
   constructor(private readonly sessionRepository: SessionRepository) {}
 
-  async execute(input: { sessionId: string }): Promise<SessionResultView> {
-    const session = await this.sessionRepository.findById(input.sessionId);
-    if (!session) {
-      throw new NotFoundError('Session not found.');
-    }
+  async execute(input: { sessionId: string; userId: string }): Promise<SessionResultView> {
+    const session = await loadOwnedSession(this.sessionRepository, input);
 
     return {
       sessionId: session.id,
       status: session.status,
-      result: session.result
+      result: session.result,
+      feedbackGeneration: session.feedbackGeneration
     };
   }
 }
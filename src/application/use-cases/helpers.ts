@@ -1,23 +1,299 @@
-import type { SessionTurn, TimingSummary } from '../../domain/entities/session.js';
+import { createHash } from 'node:crypto';
+import {
+  CEFR_LEVELS,
+  PROFICIENCY_SKILLS,
+  RUBRIC_CRITERIA,
+  type AttemptComparison,
+  type CorrectionCategory,
+  type CorrectionItem,
+  type FeedbackGeneration,
+  type ImprovedAnswer,
+  type InterviewFeedback,
+  type InterviewSession,
+  type ProficiencyAssessment,
+  type RubricCriterion,
+  type ScoreCard,
+  type SessionQuestion,
+  type SessionTurn,
+  type SkillLevel,
+  type TimingSummary,
+  type TurnRubric
+} from '../../domain/entities/session.js';
+import type { Question } from '../../domain/entities/question.js';
+import type { SessionRepository } from '../../domain/repositories/session-repository.js';
+import type { CoachFeedback, InterviewCoachService } from '../../domain/services/interview-coach-service.js';
+import type { JobQueue } from '../../domain/services/job-queue.js';
+import { summarizeFluency } from '../audio/fluency.js';
+import { summarizePronunciation } from '../audio/pronunciation.js';
+import { improvedAnswerAudioUrl } from '../audio/speech-url.js';
+import { NotFoundError } from '../errors/not-found-error.js';
+import { ValidationError } from '../errors/validation-error.js';
+import { diffWords } from '../text/word-diff.js';
+
+/** Sessions owned by someone else are reported as missing so ids cannot be probed. */
+export async function loadOwnedSession(
+  sessionRepository: SessionRepository,
+  params: { sessionId: string; userId: string }
+): Promise<InterviewSession> {
+  const session = await sessionRepository.findById(params.sessionId);
+  if (!session || session.userId !== params.userId) {
+    throw new NotFoundError('Session not found.');
+  }
+  return session;
+}
+
+/** Only an in-progress session takes answers or lifecycle changes. */
+export function assertInProgress(session: InterviewSession): void {
+  if (session.status !== 'in_progress') {
+    throw new ValidationError(`Session is already ${session.status}.`);
+  }
+}
+
+/** The job that writes a finished session's final feedback in the background. */
+export interface FeedbackJob {
+  sessionId: string;
+}
+
+/**
+ * Hands a finished session to the feedback job; it takes the `completesAs`
+ * status once the feedback is written. Save the session before calling
+ * `enqueueFeedbackJob`, so the worker never loads a stale copy.
+ */
+export function startFeedbackGeneration(
+  session: InterviewSession,
+  completesAs: FeedbackGeneration['completesAs']
+): void {
+  session.status = 'generating_feedback';
+  session.promptServedAt = null;
+  session.feedbackGeneration = {
+    state: 'queued',
+    attempts: 0,
+    lastError: null,
+    queuedAt: new Date().toISOString(),
+    nextAttemptAt: null,
+    completesAs
+  };
+}
+
+export async function enqueueFeedbackJob(
+  feedbackQueue: JobQueue<FeedbackJob>,
+  session: InterviewSession
+): Promise<void> {
+  if (session.status === 'generating_feedback') {
+    await feedbackQueue.enqueue({ sessionId: session.id });
+  }
+}
+
+export function hashApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
+
+export const LONG_PAUSE_SEC = 4;
 
 export function computeTimingSummary(turns: SessionTurn[]): TimingSummary {
-  const delays = turns.flatMap((turn) => {
-    const items = [turn.mainResponseDelaySec];
-    if (typeof turn.followUpResponseDelaySec === 'number') {
-      items.push(turn.followUpResponseDelaySec);
-    }
-    return items;
-  });
+  const delays = turns.flatMap((turn) => [
+    turn.mainResponseDelaySec,
+    ...turn.followUps.map((round) => round.responseDelaySec)
+  ]);
 
   const avgResponseDelaySec = delays.length
     ? Number((delays.reduce((a, b) => a + b, 0) / delays.length).toFixed(2))
     : 0;
 
-  const longPausesCount = delays.filter((delay) => delay > 4).length;
+  const longPausesCount = delays.filter((delay) => delay > LONG_PAUSE_SEC).length;
+
+  const silences = turns
+    .flatMap((turn) => [turn.mainLeadingSilenceSec, ...turn.followUps.map((round) => round.leadingSilenceSec)])
+    .filter((silence): silence is number => typeof silence === 'number');
 
   return {
     avgResponseDelaySec,
     longPausesCount,
-    totalTurns: delays.length
+    totalTurns: delays.length,
+    avgLeadingSilenceSec: silences.length
+      ? Number((silences.reduce((a, b) => a + b, 0) / silences.length).toFixed(2))
+      : null
+  };
+}
+
+/**
+ * Builds the end-of-interview feedback over the answered turns. Sessions that
+ * end early or skip questions get the same feedback, flagged as partial.
+ */
+export async function generateSessionFeedback(
+  interviewCoachService: InterviewCoachService,
+  session: InterviewSession
+): Promise<InterviewFeedback> {
+  const timingSummary = computeTimingSummary(session.turns);
+  const fluency = summarizeFluency(session.turns);
+  const pronunciation = summarizePronunciation(session.turns);
+  const transcript = session.turns.map((turn, index) => ({
+    questionNumber: index + 1,
+    question: turn.question,
+    answer: turn.answer,
+    followUps: turn.followUps.map((round) => ({ question: round.question, answer: round.answer })),
+    retries: turn.retries.map((attempt) => attempt.answer),
+    turnCorrections: session.coachMode
+      ? [
+          ...(turn.mainFeedback?.corrections ?? []),
+          ...turn.followUps.flatMap((round) => round.feedback?.corrections ?? []),
+          ...turn.retries.flatMap((attempt) => attempt.feedback?.corrections ?? [])
+        ]
+      : null
+  }));
+
+  const feedback = await interviewCoachService.generateFeedback({
+    timingSummary,
+    fluency,
+    pronunciation,
+    transcript
+  });
+
+  return {
+    timingSummary,
+    fluency,
+    pronunciation,
+    scores: summarizeScores(feedback.turnScores),
+    proficiency: summarizeProficiency(feedback.proficiency),
+    corrections: feedback.corrections,
+    vocabulary: feedback.vocabulary,
+    improvedAnswers: buildImprovedAnswers(session.id, session.turns, feedback.improvedAnswers),
+    interviewTips: feedback.interviewTips,
+    attemptComparisons: compareAttempts(session.turns, feedback.attemptComparisons),
+    partial: session.turns.length < session.questions.length
+  };
+}
+
+/** Averages the coach's rubrics; a turn scored twice keeps its first rubric. */
+export function summarizeScores(turnScores: TurnRubric[]): ScoreCard | null {
+  const turns = turnScores
+    .filter((turn, index, all) => all.findIndex((other) => other.questionNumber === turn.questionNumber) === index)
+    .sort((a, b) => a.questionNumber - b.questionNumber)
+    .map((turn) => ({ ...turn, overall: mean(turn.criteria.map((item) => item.score)) }));
+
+  if (!turns.length) {
+    return null;
+  }
+
+  const byCriterion = Object.fromEntries(
+    RUBRIC_CRITERIA.map((criterion) => [
+      criterion,
+      mean(
+        turns.flatMap((turn) =>
+          turn.criteria.filter((item) => item.criterion === criterion).map((item) => item.score)
+        )
+      )
+    ])
+  ) as Record<RubricCriterion, number>;
+
+  return {
+    overall: mean(turns.map((turn) => turn.overall)),
+    byCriterion,
+    turns
   };
 }
+
+/** Combines the coach's skill levels; a skill levelled twice keeps its first level. */
+export function summarizeProficiency(skillLevels: SkillLevel[]): ProficiencyAssessment | null {
+  const skills = PROFICIENCY_SKILLS.flatMap((skill) => skillLevels.find((item) => item.skill === skill) ?? []);
+  if (skills.length < PROFICIENCY_SKILLS.length) {
+    return null;
+  }
+
+  const meanIndex = mean(skills.map((item) => CEFR_LEVELS.indexOf(item.level)));
+  return { level: CEFR_LEVELS[Math.round(meanIndex)], skills };
+}
+
+/** Pairs the coach's rewrites with the answers they rewrite; rewrites of unknown answers are dropped. */
+export function buildImprovedAnswers(
+  sessionId: string,
+  turns: SessionTurn[],
+  rewrites: CoachFeedback['improvedAnswers']
+): ImprovedAnswer[] {
+  const improved = turns.flatMap((turn, index) => {
+    const questionNumber = index + 1;
+    // A retried question is improved from its latest attempt.
+    const latestAnswer = turn.retries.length ? turn.retries[turn.retries.length - 1].answer : turn.answer;
+    const answers: Array<Pick<ImprovedAnswer, 'kind' | 'followUpRound' | 'question' | 'original'>> = [
+      { kind: 'main', followUpRound: null, question: turn.question, original: latestAnswer },
+      ...turn.followUps.map((round, roundIndex) => ({
+        kind: 'follow_up' as const,
+        followUpRound: roundIndex + 1,
+        question: round.question,
+        original: round.answer
+      }))
+    ];
+
+    return answers.flatMap((answer) => {
+      const rewrite = rewrites.find(
+        (item) =>
+          item.questionNumber === questionNumber &&
+          item.kind === answer.kind &&
+          item.followUpRound === answer.followUpRound
+      );
+      return rewrite?.improved
+        ? [
+            {
+              questionNumber,
+              ...answer,
+              improved: rewrite.improved,
+              changes: diffWords(answer.original, rewrite.improved)
+            }
+          ]
+        : [];
+    });
+  });
+  return improved.map((answer, index) => ({ ...answer, audioUrl: improvedAnswerAudioUrl(sessionId, index + 1) }));
+}
+
+export function compareAttempts(
+  turns: SessionTurn[],
+  comparisons: Array<{ questionNumber: number; improvement: string }>
+): AttemptComparison[] {
+  return turns.flatMap((turn, index) => {
+    const comparison = comparisons.find((item) => item.questionNumber === index + 1);
+    return turn.retries.length && comparison
+      ? [{ questionNumber: index + 1, attempts: turn.retries.length + 1, improvement: comparison.improvement }]
+      : [];
+  });
+}
+
+function mean(values: number[]): number {
+  return values.length ? Number((values.reduce((a, b) => a + b, 0) / values.length).toFixed(2)) : 0;
+}
+
+export function shuffle<T>(items: readonly T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/** Feedback stored before corrections were categorized has no category. */
+export function correctionCategory(correction: CorrectionItem): CorrectionCategory {
+  return correction.category ?? 'other';
+}
+
+/** Groups corrections that give the same reason in slightly different words. */
+export function normalizeReason(reason: string): string {
+  return reason
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function toSessionQuestion(question: Question): SessionQuestion {
+  return {
+    questionId: question.id,
+    text: question.text,
+    category: question.category,
+    difficulty: question.difficulty
+  };
+}
+
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+}
@@ -0,0 +1,25 @@
+import type { NotebookItem, NotebookItemKind } from '../../domain/entities/notebook.js';
+import type { NotebookRepository } from '../../domain/repositories/notebook-repository.js';
+
+export interface NotebookView {
+  items: NotebookItem[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export class ListNotebookUseCase {
+  constructor(private readonly notebookRepository: NotebookRepository) {}
+
+  async execute(input: {
+    userId: string;
+    kind?: NotebookItemKind;
+    limit?: number;
+    offset?: number;
+  }): Promise<NotebookView> {
+    const limit = input.limit ?? 20;
+    const offset = input.offset ?? 0;
+    const page = await this.notebookRepository.list({ userId: input.userId, kind: input.kind, limit, offset });
+    return { items: page.items, total: page.total, limit, offset };
+  }
+}
@@ -0,0 +1,10 @@
+import type { Question } from '../../domain/entities/question.js';
+import type { QuestionFilter, QuestionRepository } from '../../domain/repositories/question-repository.js';
+
+export class ListQuestionsUseCase {
+  constructor(private readonly questionRepository: QuestionRepository) {}
+
+  async execute(input: QuestionFilter): Promise<Question[]> {
+    return this.questionRepository.list(input);
+  }
+}
@@ -0,0 +1,10 @@
+import type { InterviewTemplate } from '../../domain/entities/interview-template.js';
+import type { TemplateRepository } from '../../domain/repositories/template-repository.js';
+
+export class ListTemplatesUseCase {
+  constructor(private readonly templateRepository: TemplateRepository) {}
+
+  async execute(): Promise<InterviewTemplate[]> {
+    return this.templateRepository.list();
+  }
+}
@@ -0,0 +1,60 @@
+import type { CefrLevel, SessionStatus } from '../../domain/entities/session.js';
+import type { SessionRepository } from '../../domain/repositories/session-repository.js';
+
+export interface SessionSummary {
+  sessionId: string;
+  createdAt: string;
+  status: SessionStatus;
+  templateId: string | null;
+  answeredQuestions: number;
+  totalQuestions: number;
+  hasResult: boolean;
+  /** Rubric overall (1–5) of the result; null without a scored result. */
+  overallScore: number | null;
+  /** Estimated CEFR level of the result; null without an assessed result. */
+  cefrLevel: CefrLevel | null;
+}
+
+export interface SessionHistoryPage {
+  sessions: SessionSummary[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export class ListUserSessionsUseCase {
+  constructor(private readonly sessionRepository: SessionRepository) {}
+
+  async execute(input: {
+    userId: string;
+    status?: SessionStatus;
+    limit?: number;
+    offset?: number;
+  }): Promise<SessionHistoryPage> {
+    const limit = input.limit ?? 20;
+    const offset = input.offset ?? 0;
+    const page = await this.sessionRepository.listByUser({
+      userId: input.userId,
+      status: input.status,
+      limit,
+      offset
+    });
+
+    return {
+      sessions: page.items.map((session) => ({
+        sessionId: session.id,
+        createdAt: session.createdAt,
+        status: session.status,
+        templateId: session.templateId,
+        answeredQuestions: Math.min(session.questionIndex, session.questions.length),
+        totalQuestions: session.questions.length,
+        hasResult: session.result !== null,
+        overallScore: session.result?.scores?.overall ?? null,
+        cefrLevel: session.result?.proficiency?.level ?? null
+      })),
+      total: page.total,
+      limit,
+      offset
+    };
+  }
+}
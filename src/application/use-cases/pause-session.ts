@@ -0,0 +1,22 @@
+import type { SessionRepository } from '../../domain/repositories/session-repository.js';
+import { describeCurrentPrompt, type CurrentPromptResult } from './get-current-prompt.js';
+import { assertInProgress, loadOwnedSession } from './helpers.js';
+
+export class PauseSessionUseCase {
+  constructor(private readonly sessionRepository: SessionRepository) {}
+
+  /**
+   * Stops the response clock so a break is not counted as hesitation; it
+   * restarts when the prompt is fetched again. Paused sessions still expire
+   * once idle past the session TTL.
+   */
+  async execute(input: { sessionId: string; userId: string }): Promise<CurrentPromptResult> {
+    const session = await loadOwnedSession(this.sessionRepository, input);
+    assertInProgress(session);
+
+    session.promptServedAt = null;
+    await this.sessionRepository.save(session);
+
+    return describeCurrentPrompt(session);
+  }
+}
@@ -0,0 +1,22 @@
+import type { Question } from '../../domain/entities/question.js';
+import type { QuestionRepository } from '../../domain/repositories/question-repository.js';
+import { NotFoundError } from '../errors/not-found-error.js';
+
+export class RetireQuestionUseCase {
+  constructor(private readonly questionRepository: QuestionRepository) {}
+
+  async execute(input: { questionId: string }): Promise<Question> {
+    const question = await this.questionRepository.findById(input.questionId);
+    if (!question) {
+      throw new NotFoundError('Question not found.');
+    }
+
+    if (!question.retired) {
+      question.retired = true;
+      question.updatedAt = new Date().toISOString();
+      await this.questionRepository.save(question);
+    }
+
+    return question;
+  }
+}
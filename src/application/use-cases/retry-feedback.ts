@@ -0,0 +1,35 @@
+import type { SessionRepository } from '../../domain/repositories/session-repository.js';
+import type { JobQueue } from '../../domain/services/job-queue.js';
+import { ValidationError } from '../errors/validation-error.js';
+import type { SessionResultView } from './get-session-result.js';
+import { loadOwnedSession, type FeedbackJob } from './helpers.js';
+
+export class RetryFeedbackUseCase {
+  constructor(
+    private readonly sessionRepository: SessionRepository,
+    private readonly feedbackQueue: JobQueue<FeedbackJob>
+  ) {}
+
+  /** Queues a failed feedback job again, with a fresh set of attempts. */
+  async execute(input: { sessionId: string; userId: string }): Promise<SessionResultView> {
+    const session = await loadOwnedSession(this.sessionRepository, input);
+    const generation = session.feedbackGeneration;
+    if (session.status !== 'generating_feedback' || generation?.state !== 'failed') {
+      throw new ValidationError('Only failed feedback generation can be retried.');
+    }
+
+    generation.state = 'queued';
+    generation.attempts = 0;
+    generation.queuedAt = new Date().toISOString();
+    generation.nextAttemptAt = null;
+    await this.sessionRepository.save(session);
+    await this.feedbackQueue.enqueue({ sessionId: session.id });
+
+    return {
+      sessionId: session.id,
+      status: session.status,
+      result: session.result,
+      feedbackGeneration: session.feedbackGeneration
+    };
+  }
+}
@@ -0,0 +1,40 @@
+import type { SessionRepository } from '../../domain/repositories/session-repository.js';
+import { ValidationError } from '../errors/validation-error.js';
+import { describeCurrentPrompt, type CurrentPromptResult } from './get-current-prompt.js';
+import { loadOwnedSession } from './helpers.js';
+
+export class RetryQuestionUseCase {
+  constructor(private readonly sessionRepository: SessionRepository) {}
+
+  /**
+   * Queues another attempt at an answered question (the latest one by
+   * default). The next submitted answer becomes that attempt, after which the
+   * interview resumes; a finished interview is reopened until then.
+   */
+  async execute(input: {
+    sessionId: string;
+    userId: string;
+    questionNumber?: number;
+  }): Promise<CurrentPromptResult> {
+    const session = await loadOwnedSession(this.sessionRepository, input);
+
+    if (session.status !== 'in_progress' && session.status !== 'completed') {
+      throw new ValidationError(`Session is already ${session.status}.`);
+    }
+    if (!session.turns.length) {
+      throw new ValidationError('Answer a question before retrying it.');
+    }
+
+    const questionNumber = input.questionNumber ?? session.turns.length;
+    if (questionNumber < 1 || questionNumber > session.turns.length) {
+      throw new ValidationError(`questionNumber must be between 1 and ${session.turns.length}.`);
+    }
+
+    session.retryQuestionNumber = questionNumber;
+    session.status = 'in_progress';
+    session.promptServedAt = new Date().toISOString();
+    await this.sessionRepository.save(session);
+
+    return describeCurrentPrompt(session);
+  }
+}
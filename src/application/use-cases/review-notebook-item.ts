@@ -0,0 +1,23 @@
+import type { NotebookItem } from '../../domain/entities/notebook.js';
+import type { NotebookRepository } from '../../domain/repositories/notebook-repository.js';
+import { NotFoundError } from '../errors/not-found-error.js';
+import { scheduleReview } from '../notebook/spaced-repetition.js';
+
+export class ReviewNotebookItemUseCase {
+  constructor(private readonly notebookRepository: NotebookRepository) {}
+
+  /** Records how well the user recalled an item (0 = blank, 5 = perfect) and schedules its next review. */
+  async execute(input: { userId: string; itemId: string; quality: number }): Promise<NotebookItem> {
+    const item = await this.notebookRepository.findById(input.itemId);
+    // Someone else's item is reported as missing so item ids cannot be probed.
+    if (!item || item.userId !== input.userId) {
+      throw new NotFoundError('Notebook item not found.');
+    }
+
+    const now = new Date();
+    item.review = scheduleReview(item.review, input.quality, now);
+    item.updatedAt = now.toISOString();
+    await this.notebookRepository.save(item);
+    return item;
+  }
+}
@@ -0,0 +1,56 @@
+import type { SessionRepository } from '../../domain/repositories/session-repository.js';
+import type { JobQueue } from '../../domain/services/job-queue.js';
+import { describeCurrentPrompt, type CurrentPromptResult } from './get-current-prompt.js';
+import {
+  assertInProgress,
+  enqueueFeedbackJob,
+  loadOwnedSession,
+  startFeedbackGeneration,
+  type FeedbackJob
+} from './helpers.js';
+
+export class SkipQuestionUseCase {
+  constructor(
+    private readonly sessionRepository: SessionRepository,
+    private readonly feedbackQueue: JobQueue<FeedbackJob>
+  ) {}
+
+  /**
+   * Passes over whatever is being asked: a pending retry is dropped, a pending
+   * follow-up is left unanswered, and a main question is recorded as skipped.
+   * Skipping past the last question finishes the interview and queues its
+   * feedback; with nothing answered at all the session is abandoned instead.
+   */
+  async execute(input: { sessionId: string; userId: string }): Promise<CurrentPromptResult> {
+    const session = await loadOwnedSession(this.sessionRepository, input);
+    assertInProgress(session);
+
+    if (session.retryQuestionNumber !== null) {
+      session.retryQuestionNumber = null;
+    } else if (session.awaitingFollowUp) {
+      session.awaitingFollowUp = false;
+      session.pendingFollowUpQuestion = null;
+      session.questionIndex += 1;
+    } else {
+      session.skippedQuestionIds.push(session.questions[session.questionIndex].questionId);
+      session.questionIndex += 1;
+    }
+
+    if (session.questionIndex >= session.questions.length) {
+      // A retry on a finished interview already has feedback to go back to.
+      if (session.result) {
+        session.status = 'completed';
+      } else if (session.turns.length) {
+        startFeedbackGeneration(session, 'completed');
+      } else {
+        session.status = 'abandoned';
+      }
+    }
+
+    session.promptServedAt = session.status === 'in_progress' ? new Date().toISOString() : null;
+    await this.sessionRepository.save(session);
+    await enqueueFeedbackJob(this.feedbackQueue, session);
+
+    return describeCurrentPrompt(session);
+  }
+}
@@ -0,0 +1,27 @@
+import { NotFoundError } from '../errors/not-found-error.js';
+import type { SessionRepository } from '../../domain/repositories/session-repository.js';
+import type { TextToSpeechService } from '../../domain/services/text-to-speech-service.js';
+import { loadOwnedSession } from './helpers.js';
+
+/** Speaks one of the result's improved answers, found by its 1-based position in `improvedAnswers`. */
+export class SpeakImprovedAnswerUseCase {
+  constructor(
+    private readonly sessionRepository: SessionRepository,
+    private readonly ttsService: TextToSpeechService
+  ) {}
+
+  async execute(input: {
+    sessionId: string;
+    userId: string;
+    answerNumber: number;
+  }): Promise<{ audio: Buffer; mimeType: string }> {
+    const session = await loadOwnedSession(this.sessionRepository, input);
+    const improved = session.result?.improvedAnswers[input.answerNumber - 1];
+    if (!improved) {
+      throw new NotFoundError('Improved answer not found.');
+    }
+
+    const audio = await this.ttsService.synthesize({ text: improved.improved });
+    return { audio, mimeType: 'audio/mpeg' };
+  }
+}
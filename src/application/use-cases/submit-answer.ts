@@ -1,85 +1,240 @@
-import type { InterviewSession, InterviewFeedback } from '../../domain/entities/session.js';
+import { createHash } from 'node:crypto';
+import type {
+  AnswerFeedback,
+  AnswerFluency,
+  AnswerRating,
+  AssessedWord,
+  InterviewSession,
+  QuestionSelection,
+  SessionQuestion,
+  SessionStatus,
+  SessionTurn
+} from '../../domain/entities/session.js';
+import type { IdempotencyRepository } from '../../domain/repositories/idempotency-repository.js';
+import type { QuestionRepository } from '../../domain/repositories/question-repository.js';
 import type { SessionRepository } from '../../domain/repositories/session-repository.js';
-import type { InterviewCoachService } from '../../domain/services/interview-coach-service.js';
+import type {
+  FollowUpExchange,
+  InterviewCoachService,
+  InterviewerReply
+} from '../../domain/services/interview-coach-service.js';
+import type { JobQueue } from '../../domain/services/job-queue.js';
+import type { PronunciationAssessmentService } from '../../domain/services/pronunciation-assessment-service.js';
 import type { SpeechToTextService } from '../../domain/services/speech-to-text-service.js';
-import { NotFoundError } from '../errors/not-found-error.js';
+import { inspectAnswerAudio, type AnswerAudio } from '../audio/answer-audio.js';
+import { analyzeFluency } from '../audio/fluency.js';
+import { UpstreamUnavailableError } from '../errors/upstream-unavailable-error.js';
 import { ValidationError } from '../errors/validation-error.js';
-import { computeTimingSummary } from './helpers.js';
+import { selectNextQuestion } from '../questions/adaptive-selection.js';
+import {
+  assertInProgress,
+  enqueueFeedbackJob,
+  loadOwnedSession,
+  startFeedbackGeneration,
+  type FeedbackJob
+} from './helpers.js';
 
 export interface SubmitAnswerInput {
   sessionId: string;
+  userId: string;
   answerText?: string;
-  audioBase64?: string;
+  audio?: Buffer;
   mimeType?: string;
-  responseDelaySec?: number;
+  /**
+   * Gap between the prompt finishing and the first answer audio, measured by a
+   * streaming transport such as the voice socket. Never taken from HTTP clients.
+   */
+  answerStartDelaySec?: number;
+  idempotencyKey?: string;
 }
 
 export interface SubmitAnswerResult {
   sessionId: string;
-  status: 'in_progress' | 'completed';
+  status: SessionStatus;
   usedTranscript: string;
   interviewerMessage: string;
   nextPrompt: string | null;
   promptType: 'question' | 'follow_up' | 'completed';
-  result: InterviewFeedback | null;
+  /** Coaching on this answer; null unless the session is in coach mode. */
+  answerFeedback: AnswerFeedback | null;
+  /** Why the next question was chosen; null unless an adaptive session just moved to a new question. */
+  nextQuestionSelection: QuestionSelection | null;
+}
+
+/** How many recent completed sessions an adaptive session looks at for the user's weak categories. */
+const ADAPTIVE_HISTORY_SESSIONS = 20;
+
+/** How an answer was delivered, as opposed to what was said. */
+interface AnswerDelivery {
+  responseDelaySec: number;
+  leadingSilenceSec: number | null;
+  fluency: AnswerFluency | null;
+  pronunciation: AssessedWord[] | null;
+}
+
+/** Optional progress hooks for clients that stream the submission as it happens. */
+export interface SubmitAnswerListener {
+  onTranscript?(transcript: string): void;
+  onReplyDelta?(delta: string): void;
+  onFeedbackStarted?(): void;
+  /** The answer is kept without pronunciation feedback; this only reports why. */
+  onPronunciationFailed?(error: unknown): void;
 }
 
 export class SubmitAnswerUseCase {
+  private readonly inFlight = new Map<
+    string,
+    { requestFingerprint: string; submission: Promise<SubmitAnswerResult> }
+  >();
+
   constructor(
     private readonly sessionRepository: SessionRepository,
     private readonly speechToTextService: SpeechToTextService,
-    private readonly interviewCoachService: InterviewCoachService
+    private readonly interviewCoachService: InterviewCoachService,
+    private readonly idempotencyRepository: IdempotencyRepository,
+    private readonly pronunciationAssessmentService: PronunciationAssessmentService,
+    private readonly feedbackQueue: JobQueue<FeedbackJob>,
+    private readonly questionRepository: QuestionRepository
   ) {}
 
-  async execute(input: SubmitAnswerInput): Promise<SubmitAnswerResult> {
-    const session = await this.sessionRepository.findById(input.sessionId);
-    if (!session) {
-      throw new NotFoundError('Session not found.');
+  /**
+   * Throws NotFoundError unless the session exists and belongs to the user.
+   * Read-only, so streaming transports can check before they commit to a response.
+   */
+  async assertAccess(input: { sessionId: string; userId: string }): Promise<void> {
+    await loadOwnedSession(this.sessionRepository, input);
+  }
+
+  async execute(input: SubmitAnswerInput, listener?: SubmitAnswerListener): Promise<SubmitAnswerResult> {
+    if (!input.idempotencyKey) {
+      return this.submit(input, listener);
     }
 
-    if (session.status === 'completed') {
-      throw new ValidationError('Session is already completed.');
+    // Ownership is checked before replaying so stored responses never leak across users.
+    await loadOwnedSession(this.sessionRepository, input);
+
+    const idempotencyKey = input.idempotencyKey;
+    const requestFingerprint = fingerprintRequest(input);
+    const stored = await this.idempotencyRepository.find<SubmitAnswerResult>(
+      input.sessionId,
+      idempotencyKey
+    );
+    if (stored) {
+      assertSameRequest(stored.requestFingerprint, requestFingerprint);
+      return stored.response;
     }
 
-    const responseDelaySec = normalizeDelay(input.responseDelaySec);
-    const transcript = await this.resolveTranscript(input);
+    // A retry that arrives while the original request is still running waits for
+    // the same outcome instead of racing it into a version conflict.
+    const flightKey = `${input.sessionId}:${idempotencyKey}`;
+    const pending = this.inFlight.get(flightKey);
+    if (pending) {
+      assertSameRequest(pending.requestFingerprint, requestFingerprint);
+      return pending.submission;
+    }
+
+    const submission = this.submit(input, listener).then(async (result) => {
+      await this.idempotencyRepository.save({
+        sessionId: input.sessionId,
+        key: idempotencyKey,
+        requestFingerprint,
+        response: result,
+        createdAt: new Date().toISOString()
+      });
+      return result;
+    });
 
-    if (session.awaitingFollowUp) {
-      return this.submitFollowUpAnswer({ session, transcript, responseDelaySec });
+    this.inFlight.set(flightKey, { requestFingerprint, submission });
+    try {
+      return await submission;
+    } finally {
+      this.inFlight.delete(flightKey);
     }
+  }
+
+  /**
+   * Works on a freshly loaded copy of the session and saves it once, after
+   * every downstream call for the turn has succeeded. A failed transcription,
+   * reply or feedback call leaves the stored session as it was, so the same
+   * answer can simply be submitted again. The final feedback is not among
+   * them: the last answer queues it and returns with `generating_feedback`.
+   */
+  private async submit(
+    input: SubmitAnswerInput,
+    listener: SubmitAnswerListener = {}
+  ): Promise<SubmitAnswerResult> {
+    const session = await loadOwnedSession(this.sessionRepository, input);
+
+    assertInProgress(session);
+
+    const answeredAt = Date.now();
+    const { transcript, audio, fluency, pronunciation } = await this.resolveAnswer(input, listener);
+    listener.onTranscript?.(transcript);
+    const delivery: AnswerDelivery = {
+      ...measureResponseTiming({
+        promptServedAt: session.promptServedAt,
+        answeredAt,
+        answerStartDelaySec: input.answerStartDelaySec,
+        audio
+      }),
+      fluency,
+      pronunciation
+    };
+
+    const result =
+      session.retryQuestionNumber !== null
+        ? await this.submitRetryAnswer({ session, transcript, delivery, listener })
+        : session.awaitingFollowUp
+          ? await this.submitFollowUpAnswer({ session, transcript, delivery, listener })
+          : await this.submitMainAnswer({ session, transcript, delivery, listener });
 
-    return this.submitMainAnswer({ session, transcript, responseDelaySec });
+    await enqueueFeedbackJob(this.feedbackQueue, session);
+    return result;
   }
 
   private async submitMainAnswer(params: {
     session: InterviewSession;
     transcript: string;
-    responseDelaySec: number;
+    delivery: AnswerDelivery;
+    listener: SubmitAnswerListener;
   }): Promise<SubmitAnswerResult> {
-    const { session, transcript, responseDelaySec } = params;
+    const { session, transcript, delivery, listener } = params;
     const question = session.questions[session.questionIndex];
     if (!question) {
       throw new ValidationError('No active question found for this session.');
     }
 
-    const interviewerReply = await this.interviewCoachService.generateInterviewerReply({
-      question,
-      answer: transcript
-    });
-    const followUpQuestion = session.allowFollowUps ? interviewerReply.followUpQuestion : null;
-
-    session.turns.push({
-      question,
+    const [interviewerReply, answerFeedback, answerRating] = await Promise.all([
+      this.interviewerReply(session, { question: question.text, answer: transcript, followUps: [] }, listener),
+      this.coachAnswer(session, {
+        question: question.text,
+        answer: transcript,
+        questionNumber: session.turns.length + 1
+      }),
+      this.rateAnswer(session, question, transcript)
+    ]);
+    const followUpQuestion = session.maxFollowUps > 0 ? interviewerReply.followUpQuestion : null;
+
+    const turn: SessionTurn = {
+      questionId: question.questionId,
+      question: question.text,
       answer: transcript,
-      followUpQuestion,
-      followUpAnswer: null,
-      mainResponseDelaySec: responseDelaySec,
-      followUpResponseDelaySec: null
-    });
+      mainResponseDelaySec: delivery.responseDelaySec,
+      mainLeadingSilenceSec: delivery.leadingSilenceSec,
+      mainFluency: delivery.fluency,
+      mainPronunciation: delivery.pronunciation,
+      mainFeedback: answerFeedback,
+      followUps: [],
+      retries: [],
+      answerRating,
+      nextQuestionSelection: null
+    };
+    session.turns.push(turn);
 
     if (followUpQuestion) {
       session.awaitingFollowUp = true;
       session.pendingFollowUpQuestion = followUpQuestion;
+      markPromptServed(session);
 
       await this.sessionRepository.save(session);
 
@@ -90,12 +245,15 @@ export class SubmitAnswerUseCase {
         interviewerMessage: interviewerReply.replyText,
         nextPrompt: followUpQuestion,
         promptType: 'follow_up',
-        result: null
+        answerFeedback,
+        nextQuestionSelection: null
       };
     }
 
     session.questionIndex += 1;
-    const completion = await this.completeIfFinished(session);
+    await this.chooseNextQuestion(session, turn);
+    this.completeIfFinished(session, listener);
+    markPromptServed(session);
     await this.sessionRepository.save(session);
 
     return {
@@ -103,116 +261,351 @@ export class SubmitAnswerUseCase {
       status: session.status,
       usedTranscript: transcript,
       interviewerMessage: interviewerReply.replyText,
-      nextPrompt: session.status === 'completed' ? null : session.questions[session.questionIndex],
-      promptType: session.status === 'completed' ? 'completed' : 'question',
-      result: completion
+      ...nextPromptOf(session),
+      answerFeedback,
+      nextQuestionSelection: turn.nextQuestionSelection
     };
   }
 
+  /**
+   * Records the answer as the turn's latest follow-up round. While rounds are
+   * left the interviewer may probe again, which keeps the session on the
+   * follow-up; otherwise, or when it does not, the session moves on.
+   */
   private async submitFollowUpAnswer(params: {
     session: InterviewSession;
     transcript: string;
-    responseDelaySec: number;
+    delivery: AnswerDelivery;
+    listener: SubmitAnswerListener;
   }): Promise<SubmitAnswerResult> {
-    const { session, transcript, responseDelaySec } = params;
+    const { session, transcript, delivery, listener } = params;
     const activeTurn = session.turns[session.turns.length - 1];
+    const followUpQuestion = session.pendingFollowUpQuestion;
 
-    if (!activeTurn?.followUpQuestion) {
+    if (!activeTurn || !followUpQuestion) {
       throw new ValidationError('Follow-up is not available for this session state.');
     }
 
-    activeTurn.followUpAnswer = transcript;
-    activeTurn.followUpResponseDelaySec = responseDelaySec;
-
-    const closeText = await this.interviewCoachService.generateFollowUpClose({
-      question: activeTurn.question,
-      answer: activeTurn.answer,
-      followUpQuestion: activeTurn.followUpQuestion,
-      followUpAnswer: transcript
+    const followUps = [
+      ...activeTurn.followUps.map((round) => ({ question: round.question, answer: round.answer })),
+      { question: followUpQuestion, answer: transcript }
+    ];
+    const canProbeAgain = followUps.length < session.maxFollowUps;
+    const exchange = { question: activeTurn.question, answer: activeTurn.answer, followUps };
+    const [interviewerReply, answerFeedback] = await Promise.all([
+      canProbeAgain
+        ? this.interviewerReply(session, exchange, listener)
+        : this.followUpClose(session, exchange, listener).then((replyText) => ({
+            replyText,
+            followUpQuestion: null
+          })),
+      this.coachAnswer(session, {
+        question: followUpQuestion,
+        answer: transcript,
+        questionNumber: session.turns.length
+      })
+    ]);
+    activeTurn.followUps.push({
+      question: followUpQuestion,
+      answer: transcript,
+      responseDelaySec: delivery.responseDelaySec,
+      leadingSilenceSec: delivery.leadingSilenceSec,
+      fluency: delivery.fluency,
+      pronunciation: delivery.pronunciation,
+      feedback: answerFeedback
     });
 
-    session.awaitingFollowUp = false;
-    session.pendingFollowUpQuestion = null;
-    session.questionIndex += 1;
+    if (interviewerReply.followUpQuestion) {
+      session.pendingFollowUpQuestion = interviewerReply.followUpQuestion;
+    } else {
+      session.awaitingFollowUp = false;
+      session.pendingFollowUpQuestion = null;
+      session.questionIndex += 1;
+      await this.chooseNextQuestion(session, activeTurn);
+      this.completeIfFinished(session, listener);
+    }
 
-    const completion = await this.completeIfFinished(session);
+    markPromptServed(session);
     await this.sessionRepository.save(session);
 
     return {
       sessionId: session.id,
       status: session.status,
       usedTranscript: transcript,
-      interviewerMessage: closeText,
-      nextPrompt: session.status === 'completed' ? null : session.questions[session.questionIndex],
-      promptType: session.status === 'completed' ? 'completed' : 'question',
-      result: completion
+      interviewerMessage: interviewerReply.replyText,
+      ...nextPromptOf(session),
+      answerFeedback,
+      nextQuestionSelection: session.awaitingFollowUp ? null : activeTurn.nextQuestionSelection
     };
   }
 
-  private async resolveTranscript(input: SubmitAnswerInput): Promise<string> {
-    if (input.answerText && input.answerText.trim()) {
-      return input.answerText.trim();
+  /**
+   * Records another attempt at an earlier main question, then resumes the
+   * interview where it was. A retry on a finished interview regenerates the
+   * final feedback so it can compare the attempts.
+   */
+  private async submitRetryAnswer(params: {
+    session: InterviewSession;
+    transcript: string;
+    delivery: AnswerDelivery;
+    listener: SubmitAnswerListener;
+  }): Promise<SubmitAnswerResult> {
+    const { session, transcript, delivery, listener } = params;
+    const questionNumber = session.retryQuestionNumber ?? 0;
+    const turn = session.turns[questionNumber - 1];
+    if (!turn) {
+      throw new ValidationError('The question being retried no longer exists.');
     }
 
-    if (!input.audioBase64) {
-      throw new ValidationError('Provide either answerText or audioBase64.');
+    const [interviewerReply, answerFeedback] = await Promise.all([
+      this.interviewerReply(session, { question: turn.question, answer: transcript, followUps: [] }, listener),
+      this.coachAnswer(session, { question: turn.question, answer: transcript, questionNumber })
+    ]);
+
+    turn.retries.push({
+      answer: transcript,
+      answeredAt: new Date().toISOString(),
+      responseDelaySec: delivery.responseDelaySec,
+      leadingSilenceSec: delivery.leadingSilenceSec,
+      fluency: delivery.fluency,
+      pronunciation: delivery.pronunciation,
+      feedback: answerFeedback
+    });
+    session.retryQuestionNumber = null;
+
+    this.completeIfFinished(session, listener);
+    markPromptServed(session);
+    await this.sessionRepository.save(session);
+
+    return {
+      sessionId: session.id,
+      status: session.status,
+      usedTranscript: transcript,
+      interviewerMessage: interviewerReply.replyText,
+      ...nextPromptOf(session),
+      answerFeedback,
+      nextQuestionSelection: null
+    };
+  }
+
+  /** Streams the reply when the listener takes deltas, in the session's interviewer persona. */
+  private async interviewerReply(
+    session: InterviewSession,
+    exchange: { question: string; answer: string; followUps: FollowUpExchange[] },
+    listener: SubmitAnswerListener
+  ): Promise<InterviewerReply> {
+    const params = { persona: session.coachPersona, interviewerPersona: session.interviewerPersona, ...exchange };
+    return listener.onReplyDelta
+      ? this.interviewCoachService.streamInterviewerReply(params, listener.onReplyDelta)
+      : this.interviewCoachService.generateInterviewerReply(params);
+  }
+
+  private async followUpClose(
+    session: InterviewSession,
+    exchange: { question: string; answer: string; followUps: FollowUpExchange[] },
+    listener: SubmitAnswerListener
+  ): Promise<string> {
+    const params = { persona: session.coachPersona, interviewerPersona: session.interviewerPersona, ...exchange };
+    return listener.onReplyDelta
+      ? this.interviewCoachService.streamFollowUpClose(params, listener.onReplyDelta)
+      : this.interviewCoachService.generateFollowUpClose(params);
+  }
+
+  /**
+   * Runs alongside the interviewer reply so coach mode adds no extra wait. The
+   * feedback is a bonus: an unavailable coach leaves it out rather than failing the turn.
+   */
+  private async coachAnswer(
+    session: InterviewSession,
+    params: { question: string; answer: string; questionNumber: number }
+  ): Promise<AnswerFeedback | null> {
+    if (!session.coachMode) {
+      return null;
+    }
+    return this.interviewCoachService.generateAnswerFeedback(params).catch((error: unknown) => {
+      if (error instanceof UpstreamUnavailableError) {
+        return null;
+      }
+      throw error;
+    });
+  }
+
+  /** Adaptive sessions only. Like coach feedback, an unavailable coach leaves the rating out. */
+  private async rateAnswer(
+    session: InterviewSession,
+    question: SessionQuestion,
+    answer: string
+  ): Promise<AnswerRating | null> {
+    if (!session.adaptive) {
+      return null;
     }
+    return this.interviewCoachService
+      .rateAnswer({ question: question.text, category: question.category, difficulty: question.difficulty, answer })
+      .catch((error: unknown) => {
+        if (error instanceof UpstreamUnavailableError) {
+          return null;
+        }
+        throw error;
+      });
+  }
 
-    const mimeType = input.mimeType?.trim() || 'audio/wav';
+  /**
+   * In an adaptive session, replaces the placeholder for the question about
+   * to be asked with one chosen from how the turn went and the user's recent
+   * sessions, and records why on the turn.
+   */
+  private async chooseNextQuestion(session: InterviewSession, turn: SessionTurn): Promise<void> {
+    const answered = session.questions.find((question) => question.questionId === turn.questionId);
+    if (!session.adaptive || !answered || session.questionIndex >= session.questions.length) {
+      return;
+    }
 
-    let audio: Buffer;
-    try {
-      audio = Buffer.from(input.audioBase64, 'base64');
-    } catch {
-      throw new ValidationError('audioBase64 must be a valid base64 string.');
+    const [history, pool] = await Promise.all([
+      this.sessionRepository.listByUser({
+        userId: session.userId,
+        status: 'completed',
+        limit: ADAPTIVE_HISTORY_SESSIONS,
+        offset: 0
+      }),
+      this.questionRepository.list()
+    ]);
+    const { question, selection } = selectNextQuestion({
+      session,
+      answered,
+      rating: turn.answerRating,
+      history: history.items,
+      pool
+    });
+    session.questions[session.questionIndex] = question;
+    turn.nextQuestionSelection = selection;
+  }
+
+  private async resolveAnswer(
+    input: SubmitAnswerInput,
+    listener: SubmitAnswerListener
+  ): Promise<{
+    transcript: string;
+    audio: AnswerAudio | null;
+    fluency: AnswerFluency | null;
+    pronunciation: AssessedWord[] | null;
+  }> {
+    if (input.answerText && input.answerText.trim()) {
+      return { transcript: input.answerText.trim(), audio: null, fluency: null, pronunciation: null };
     }
 
-    if (!audio.length) {
-      throw new ValidationError('Decoded audio payload is empty.');
+    if (!input.audio) {
+      throw new ValidationError('Provide either answerText or audio.');
     }
 
-    const transcript = await this.speechToTextService.transcribe({ audio, mimeType });
-    if (!transcript.trim()) {
+    const audio = inspectAnswerAudio(input.audio, input.mimeType);
+    // The assessment runs alongside the transcription so it adds no latency. It is a
+    // bonus: an assessor outage is reported but must not lose the answer.
+    const assessment = this.pronunciationAssessmentService
+      .assess({ audio: audio.audio, mimeType: audio.mimeType })
+      .catch((error: unknown) => {
+        listener.onPronunciationFailed?.(error);
+        return null;
+      });
+    const transcription = await this.speechToTextService.transcribe({
+      audio: audio.audio,
+      mimeType: audio.mimeType
+    });
+    if (!transcription.text.trim()) {
       throw new ValidationError('Transcription returned empty text.');
     }
 
-    return transcript.trim();
+    return {
+      transcript: transcription.text.trim(),
+      audio,
+      fluency: analyzeFluency(transcription, audio),
+      pronunciation: await assessment
+    };
   }
 
-  private async completeIfFinished(session: InterviewSession): Promise<InterviewFeedback | null> {
+  /** Past the last question, the session waits on its feedback job. */
+  private completeIfFinished(session: InterviewSession, listener: SubmitAnswerListener): void {
     if (session.questionIndex < session.questions.length) {
-      return null;
+      return;
     }
 
-    const timingSummary = computeTimingSummary(session.turns);
-    const transcript = session.turns.map((turn, index) => ({
-      questionNumber: index + 1,
-      question: turn.question,
-      answer: turn.answer,
-      followUpQuestion: turn.followUpQuestion,
-      followUpAnswer: turn.followUpAnswer
-    }));
+    listener.onFeedbackStarted?.();
+    startFeedbackGeneration(session, 'completed');
+  }
+}
 
-    const feedback = await this.interviewCoachService.generateFeedback({ timingSummary, transcript });
+function fingerprintRequest(input: SubmitAnswerInput): string {
+  return createHash('sha256')
+    .update(
+      JSON.stringify([
+        input.answerText ?? null,
+        input.audio ? createHash('sha256').update(input.audio).digest('hex') : null,
+        input.mimeType ?? null
+      ])
+    )
+    .digest('hex');
+}
 
-    session.result = {
-      timingSummary,
-      corrections: feedback.corrections,
-      improvedBestAnswer: feedback.improvedBestAnswer,
-      interviewTips: feedback.interviewTips
-    };
-    session.status = 'completed';
+function assertSameRequest(storedFingerprint: string, requestFingerprint: string): void {
+  if (storedFingerprint !== requestFingerprint) {
+    throw new ValidationError('Idempotency-Key was already used with a different request body.');
+  }
+}
 
-    return session.result;
+/**
+ * Hesitation is measured on the server. Streaming transports report the gap to
+ * the first audio chunk, to which any silence at the start of the recording is
+ * added. Uploaded PCM WAV is judged by its leading silence alone, since the
+ * time since the prompt also covers listening to it. Otherwise the delay is the
+ * time since the prompt was served, minus the length of the recording.
+ */
+function measureResponseTiming(params: {
+  promptServedAt: string | null;
+  answeredAt: number;
+  answerStartDelaySec: number | undefined;
+  audio: AnswerAudio | null;
+}): { responseDelaySec: number; leadingSilenceSec: number | null } {
+  const leadingSilenceSec = params.audio?.leadingSilenceSec ?? null;
+
+  if (params.answerStartDelaySec !== undefined) {
+    if (!Number.isFinite(params.answerStartDelaySec) || params.answerStartDelaySec < 0) {
+      throw new ValidationError('answerStartDelaySec must be a non-negative number.');
+    }
+    return { responseDelaySec: round(params.answerStartDelaySec + (leadingSilenceSec ?? 0)), leadingSilenceSec };
+  }
+
+  if (leadingSilenceSec !== null) {
+    return { responseDelaySec: leadingSilenceSec, leadingSilenceSec };
+  }
+
+  if (!params.promptServedAt) {
+    return { responseDelaySec: 0, leadingSilenceSec };
   }
+
+  const elapsedSec = (params.answeredAt - Date.parse(params.promptServedAt)) / 1000;
+  return {
+    responseDelaySec: round(Math.max(0, elapsedSec - (params.audio?.durationSec ?? 0))),
+    leadingSilenceSec
+  };
 }
 
-function normalizeDelay(value: number | undefined): number {
-  if (value === undefined) {
-    return 0;
+/** The prompt an answer hands back to: the pending follow-up, the next question, or nothing. */
+function nextPromptOf(
+  session: InterviewSession
+): Pick<SubmitAnswerResult, 'nextPrompt' | 'promptType'> {
+  if (session.status !== 'in_progress') {
+    return { nextPrompt: null, promptType: 'completed' };
   }
-  if (!Number.isFinite(value) || value < 0) {
-    throw new ValidationError('responseDelaySec must be a non-negative number.');
+  if (session.awaitingFollowUp && session.pendingFollowUpQuestion) {
+    return { nextPrompt: session.pendingFollowUpQuestion, promptType: 'follow_up' };
   }
+  return { nextPrompt: session.questions[session.questionIndex].text, promptType: 'question' };
+}
+
+/** The response that completes this save serves the next prompt. */
+function markPromptServed(session: InterviewSession): void {
+  session.promptServedAt = session.status === 'in_progress' ? new Date().toISOString() : null;
+}
+
+function round(value: number): number {
   return Number(value.toFixed(2));
 }
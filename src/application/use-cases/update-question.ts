@@ -0,0 +1,43 @@
+import type { Question, QuestionCategory, QuestionDifficulty } from '../../domain/entities/question.js';
+import type { QuestionRepository } from '../../domain/repositories/question-repository.js';
+import { NotFoundError } from '../errors/not-found-error.js';
+import { ValidationError } from '../errors/validation-error.js';
+import { normalizeTags } from './helpers.js';
+
+export class UpdateQuestionUseCase {
+  constructor(private readonly questionRepository: QuestionRepository) {}
+
+  async execute(input: {
+    questionId: string;
+    text?: string;
+    category?: QuestionCategory;
+    difficulty?: QuestionDifficulty;
+    tags?: string[];
+  }): Promise<Question> {
+    const question = await this.questionRepository.findById(input.questionId);
+    if (!question) {
+      throw new NotFoundError('Question not found.');
+    }
+
+    if (input.text !== undefined) {
+      const text = input.text.trim();
+      if (!text) {
+        throw new ValidationError('Question text must not be empty.');
+      }
+      question.text = text;
+    }
+    if (input.category) {
+      question.category = input.category;
+    }
+    if (input.difficulty) {
+      question.difficulty = input.difficulty;
+    }
+    if (input.tags) {
+      question.tags = normalizeTags(input.tags);
+    }
+    question.updatedAt = new Date().toISOString();
+
+    await this.questionRepository.save(question);
+    return question;
+  }
+}
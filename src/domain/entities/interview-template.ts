@@ -0,0 +1,45 @@
+import type { QuestionCategory, QuestionDifficulty } from './question.js';
+
+/** Interviewer styles a session can choose; each changes how replies and follow-ups are worded. */
+export const INTERVIEWER_PERSONAS = ['friendly', 'skeptical_bar_raiser', 'hurried_hiring_manager'] as const;
+
+export type InterviewerPersona = (typeof INTERVIEWER_PERSONAS)[number];
+
+export const DEFAULT_INTERVIEWER_PERSONA: InterviewerPersona = 'friendly';
+
+/** Who the interviewer is in prompts when no template describes the role. */
+export const INTERVIEWER_PERSONA_ROLES: Record<InterviewerPersona, string> = {
+  friendly: 'a friendly big-tech interviewer',
+  skeptical_bar_raiser: 'a skeptical bar-raiser at a big-tech company',
+  hurried_hiring_manager: 'a hurried hiring manager squeezing the interview in between meetings'
+};
+
+/** The most follow-up rounds a session may ask per question. */
+export const MAX_FOLLOW_UP_ROUNDS = 3;
+
+export interface QuestionMixEntry {
+  category: QuestionCategory;
+  count: number;
+  difficulties?: QuestionDifficulty[];
+  tags?: string[];
+}
+
+/**
+ * Advisory pacing for clients to display and enforce. The server stores and
+ * returns them but never cuts off an answer or expires a session because of them.
+ */
+export interface TimeLimits {
+  answerSec: number;
+  sessionMin: number;
+}
+
+export interface InterviewTemplate {
+  id: string;
+  name: string;
+  description: string;
+  questionMix: QuestionMixEntry[];
+  /** Follow-up rounds per question; 0 turns follow-ups off. */
+  maxFollowUps: number;
+  timeLimits: TimeLimits;
+  coachPersona: string;
+}
@@ -0,0 +1,45 @@
+import type { InterviewTemplate } from './interview-template.js';
+
+export const INTERVIEW_TEMPLATES: readonly InterviewTemplate[] = [
+  {
+    id: 'senior-backend',
+    name: 'Senior Backend',
+    description: 'System design heavy loop with production debugging and one behavioral question.',
+    questionMix: [
+      { category: 'behavioral', count: 1, difficulties: ['medium', 'hard'] },
+      { category: 'system_design', count: 2, difficulties: ['medium', 'hard'] },
+      { category: 'debugging', count: 1, difficulties: ['medium', 'hard'] }
+    ],
+    maxFollowUps: 2,
+    timeLimits: { answerSec: 180, sessionMin: 45 },
+    coachPersona:
+      'a rigorous senior backend interviewer at a big-tech company who probes for depth and tradeoffs'
+  },
+  {
+    id: 'frontend-junior',
+    name: 'Frontend Junior',
+    description: 'Gentle introduction with browser fundamentals and a UI debugging scenario.',
+    questionMix: [
+      { category: 'behavioral', count: 1, difficulties: ['easy'] },
+      { category: 'technical', count: 2, tags: ['frontend'] },
+      { category: 'debugging', count: 1, tags: ['frontend'] }
+    ],
+    maxFollowUps: 1,
+    timeLimits: { answerSec: 120, sessionMin: 30 },
+    coachPersona:
+      'a patient, encouraging frontend interviewer who helps junior candidates structure their answers'
+  },
+  {
+    id: 'engineering-manager',
+    name: 'Engineering Manager',
+    description: 'People leadership and delivery questions with one architecture discussion.',
+    questionMix: [
+      { category: 'behavioral', count: 3, tags: ['management'] },
+      { category: 'system_design', count: 1 }
+    ],
+    maxFollowUps: 2,
+    timeLimits: { answerSec: 240, sessionMin: 60 },
+    coachPersona:
+      'an experienced engineering director assessing leadership, people management and delivery judgement'
+  }
+];
@@ -0,0 +1,52 @@
+import type { CorrectionCategory } from './session.js';
+
+export const NOTEBOOK_ITEM_KINDS = ['mistake', 'vocabulary'] as const;
+
+export type NotebookItemKind = (typeof NOTEBOOK_ITEM_KINDS)[number];
+
+/** One time the item came up in an interview. */
+export interface NotebookExample {
+  sessionId: string;
+  questionNumber: number | null;
+  /** The user's own sentence, or the coach's example when none could be found. */
+  sentence: string;
+  /** The same sentence with the correction or the suggested term applied. */
+  improved: string;
+  seenAt: string;
+}
+
+/** SM-2 spaced-repetition state. */
+export interface ReviewSchedule {
+  easeFactor: number;
+  intervalDays: number;
+  /** Successful reviews in a row; a failed review starts over. */
+  repetitions: number;
+  dueAt: string;
+  lastReviewedAt: string | null;
+}
+
+/**
+ * A mistake or a vocabulary term the user keeps in their notebook. A mistake
+ * that recurs across sessions stays one item that collects the examples.
+ */
+export interface NotebookItem {
+  id: string;
+  userId: string;
+  kind: NotebookItemKind;
+  /** Identifies the same mistake or term across sessions. */
+  key: string;
+  /** Set for mistakes. */
+  category: CorrectionCategory | null;
+  /** The wrong or plain wording the user used; null for terms suggested without one. */
+  original: string | null;
+  /** The corrected wording, or the suggested term. */
+  improved: string;
+  /** Why it was corrected, or what the term means. */
+  explanation: string;
+  occurrences: number;
+  /** Most recent last; only the latest few are kept. */
+  examples: NotebookExample[];
+  review: ReviewSchedule;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -1,12 +1,138 @@
-export const QUESTION_BANK = [
-  'Tell me about yourself and your current backend focus.',
-  'Describe a challenging production incident you handled. What did you do?',
-  'How would you design a URL shortener service?',
-  'How do you ensure reliability in a distributed system?',
-  'Explain the difference between horizontal and vertical scaling.',
-  'How do you diagnose slow database queries in production?',
-  'Describe a time you disagreed with a teammate and how you resolved it.',
-  'What tradeoffs would you consider when introducing caching?',
-  'How would you make an API backward compatible over time?',
-  'Why are you interested in this role and what value would you bring?'
-] as const;
+import type { Question } from './question.js';
+
+const SEEDED = {
+  retired: false,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z'
+} as const;
+
+export const QUESTION_BANK: readonly Question[] = [
+  {
+    id: 'seed-about-yourself',
+    text: 'Tell me about yourself and your current backend focus.',
+    category: 'behavioral',
+    difficulty: 'easy',
+    tags: ['introduction'],
+    ...SEEDED
+  },
+  {
+    id: 'seed-production-incident',
+    text: 'Describe a challenging production incident you handled. What did you do?',
+    category: 'debugging',
+    difficulty: 'medium',
+    tags: ['incidents', 'ownership'],
+    ...SEEDED
+  },
+  {
+    id: 'seed-url-shortener',
+    text: 'How would you design a URL shortener service?',
+    category: 'system_design',
+    difficulty: 'medium',
+    tags: ['api-design', 'storage'],
+    ...SEEDED
+  },
+  {
+    id: 'seed-distributed-reliability',
+    text: 'How do you ensure reliability in a distributed system?',
+    category: 'system_design',
+    difficulty: 'hard',
+    tags: ['reliability', 'distributed-systems'],
+    ...SEEDED
+  },
+  {
+    id: 'seed-scaling',
+    text: 'Explain the difference between horizontal and vertical scaling.',
+    category: 'technical',
+    difficulty: 'easy',
+    tags: ['scaling'],
+    ...SEEDED
+  },
+  {
+    id: 'seed-slow-queries',
+    text: 'How do you diagnose slow database queries in production?',
+    category: 'debugging',
+    difficulty: 'medium',
+    tags: ['databases', 'performance'],
+    ...SEEDED
+  },
+  {
+    id: 'seed-teammate-disagreement',
+    text: 'Describe a time you disagreed with a teammate and how you resolved it.',
+    category: 'behavioral',
+    difficulty: 'medium',
+    tags: ['collaboration', 'conflict'],
+    ...SEEDED
+  },
+  {
+    id: 'seed-caching-tradeoffs',
+    text: 'What tradeoffs would you consider when introducing caching?',
+    category: 'technical',
+    difficulty: 'medium',
+    tags: ['caching', 'performance'],
+    ...SEEDED
+  },
+  {
+    id: 'seed-api-compatibility',
+    text: 'How would you make an API backward compatible over time?',
+    category: 'system_design',
+    difficulty: 'hard',
+    tags: ['api-design', 'versioning'],
+    ...SEEDED
+  },
+  {
+    id: 'seed-role-motivation',
+    text: 'Why are you interested in this role and what value would you bring?',
+    category: 'behavioral',
+    difficulty: 'easy',
+    tags: ['motivation'],
+    ...SEEDED
+  },
+  {
+    id: 'seed-browser-rendering',
+    text: 'Walk me through what happens in the browser from typing a URL to seeing a rendered page.',
+    category: 'technical',
+    difficulty: 'easy',
+    tags: ['frontend', 'browser'],
+    ...SEEDED
+  },
+  {
+    id: 'seed-frontend-state',
+    text: 'How do you decide where state should live in a frontend application?',
+    category: 'technical',
+    difficulty: 'medium',
+    tags: ['frontend', 'architecture'],
+    ...SEEDED
+  },
+  {
+    id: 'seed-sluggish-form',
+    text: 'A page feels sluggish when users type into a form. How would you find the cause?',
+    category: 'debugging',
+    difficulty: 'medium',
+    tags: ['frontend', 'performance'],
+    ...SEEDED
+  },
+  {
+    id: 'seed-underperformer',
+    text: 'Tell me about a time you helped an underperforming engineer on your team.',
+    category: 'behavioral',
+    difficulty: 'hard',
+    tags: ['management', 'people'],
+    ...SEEDED
+  },
+  {
+    id: 'seed-tech-debt',
+    text: 'How do you balance technical debt against feature delivery with your stakeholders?',
+    category: 'behavioral',
+    difficulty: 'medium',
+    tags: ['management', 'prioritization'],
+    ...SEEDED
+  },
+  {
+    id: 'seed-growing-engineers',
+    text: 'How have you helped an engineer grow into a more senior role?',
+    category: 'behavioral',
+    difficulty: 'medium',
+    tags: ['management', 'mentoring'],
+    ...SEEDED
+  }
+];
@@ -0,0 +1,18 @@
+export const QUESTION_CATEGORIES = ['behavioral', 'system_design', 'debugging', 'technical'] as const;
+
+export const QUESTION_DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+
+export type QuestionCategory = (typeof QUESTION_CATEGORIES)[number];
+
+export type QuestionDifficulty = (typeof QUESTION_DIFFICULTIES)[number];
+
+export interface Question {
+  id: string;
+  text: string;
+  category: QuestionCategory;
+  difficulty: QuestionDifficulty;
+  tags: string[];
+  retired: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
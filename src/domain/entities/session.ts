@@ -1,47 +1,330 @@
-export type SessionStatus = 'in_progress' | 'completed';
+import type { InterviewerPersona, TimeLimits } from './interview-template.js';
+import type { QuestionCategory, QuestionDifficulty } from './question.js';
+
+/**
+ * `generating_feedback` sessions are finished and waiting on the background
+ * feedback job. `abandoned` sessions were ended early by the user (or had every
+ * question skipped); `expired` sessions were left idle longer than the session TTL.
+ */
+export const SESSION_STATUSES = [
+  'in_progress',
+  'generating_feedback',
+  'completed',
+  'abandoned',
+  'expired'
+] as const;
+
+export type SessionStatus = (typeof SESSION_STATUSES)[number];
 
 export interface TimingSummary {
   avgResponseDelaySec: number;
   longPausesCount: number;
   totalTurns: number;
+  /** Mean silence at the start of analyzable audio answers; null when there were none. */
+  avgLeadingSilenceSec: number | null;
+}
+
+export interface AnswerFluency {
+  /** Length of the recording, when the transcriber or the audio header reports it. */
+  durationSec: number | null;
+  wordCount: number;
+  wordsPerMinute: number | null;
+  fillerWordCount: number;
+  fillerWords: Record<string, number>;
+  /** Silent gaps between words; null when no word timestamps were available. */
+  midAnswerPauses: number | null;
+}
+
+export type AnswerKind = 'main' | 'follow_up';
+
+export interface AnswerFluencyEntry extends AnswerFluency {
+  questionNumber: number;
+  kind: AnswerKind;
+  /** 1-based follow-up round; null for the main answer. */
+  followUpRound: number | null;
+}
+
+export interface FluencySummary {
+  spokenAnswers: number;
+  avgWordsPerMinute: number | null;
+  fillerWordCount: number;
+  fillerWords: Record<string, number>;
+  midAnswerPauses: number | null;
+  answers: AnswerFluencyEntry[];
+}
+
+export interface AssessedWord {
+  word: string;
+  /** 0–1; how sure the assessor is that the word was said as recognized. */
+  confidence: number;
+}
+
+export interface PronunciationPracticeWord {
+  word: string;
+  occurrences: number;
+  /** Lowest confidence across the occurrences. */
+  confidence: number;
+  questionNumbers: number[];
+  /** GET link that speaks the word, for the candidate to compare against. */
+  referenceAudioUrl: string;
+}
+
+export interface PronunciationSummary {
+  assessedAnswers: number;
+  flaggedWordCount: number;
+  practiceWords: PronunciationPracticeWord[];
 }
 
+export const CORRECTION_CATEGORIES = [
+  'grammar',
+  'tense',
+  'articles',
+  'prepositions',
+  'word_choice',
+  'word_order',
+  'other'
+] as const;
+
+export type CorrectionCategory = (typeof CORRECTION_CATEGORIES)[number];
+
 export interface CorrectionItem {
   original: string;
   corrected: string;
   reason: string;
+  category: CorrectionCategory;
+  /** 1-based number of the transcript turn the mistake came from, when known. */
+  questionNumber: number | null;
+}
+
+/** A word or phrase the candidate could add to their vocabulary. */
+export interface VocabularySuggestion {
+  term: string;
+  meaning: string;
+  /** The plainer wording from the candidate's answer that the term would replace, if any. */
+  replaces: string | null;
+  /** The term used in a sentence about the candidate's own answer. */
+  example: string;
+  questionNumber: number | null;
+}
+
+export const RUBRIC_CRITERIA = ['structure', 'technical_depth', 'clarity', 'grammar', 'vocabulary'] as const;
+
+export type RubricCriterion = (typeof RUBRIC_CRITERIA)[number];
+
+export interface CriterionScore {
+  criterion: RubricCriterion;
+  /** 1 (poor) to 5 (excellent). */
+  score: number;
+  justification: string;
+}
+
+export interface TurnRubric {
+  /** 1-based number of the transcript turn; covers the main and follow-up answers together. */
+  questionNumber: number;
+  criteria: CriterionScore[];
+}
+
+export interface TurnScore extends TurnRubric {
+  /** Mean of the criterion scores. */
+  overall: number;
+}
+
+export interface ScoreCard {
+  /** Mean of the turn scores, comparable across sessions. */
+  overall: number;
+  byCriterion: Record<RubricCriterion, number>;
+  turns: TurnScore[];
+}
+
+/** CEFR levels the proficiency assessment distinguishes, lowest first. */
+export const CEFR_LEVELS = ['A2', 'B1', 'B2', 'C1', 'C2'] as const;
+
+export type CefrLevel = (typeof CEFR_LEVELS)[number];
+
+export const PROFICIENCY_SKILLS = ['grammar_range', 'vocabulary_range', 'coherence', 'fluency'] as const;
+
+export type ProficiencySkill = (typeof PROFICIENCY_SKILLS)[number];
+
+export interface SkillLevel {
+  skill: ProficiencySkill;
+  level: CefrLevel;
+  justification: string;
+}
+
+/** English level over the whole interview, as opposed to the per-question interview rubric. */
+export interface ProficiencyAssessment {
+  /** The level nearest the mean of the skill levels. */
+  level: CefrLevel;
+  skills: SkillLevel[];
+}
+
+/** Immediate coaching on a single answer, given in coach mode. */
+export interface AnswerFeedback {
+  corrections: CorrectionItem[];
+  improvedAnswer: string;
+}
+
+/** The coach's quick judgement of a main answer, used to pick the next question in adaptive sessions. */
+export interface AnswerRating {
+  /** 1 (poor) to 5 (excellent), for the content of the answer rather than its English. */
+  score: number;
+  reason: string;
+}
+
+/** Why an adaptive session asked the question it asked next. */
+export interface QuestionSelection {
+  questionId: string;
+  category: QuestionCategory;
+  difficulty: QuestionDifficulty;
+  rationale: string;
+}
+
+/** A run of words that is unchanged, new in the improved answer, or dropped from the original. */
+export interface AnswerDiffSpan {
+  type: 'same' | 'added' | 'removed';
+  text: string;
 }
 
-export interface ImprovedBestAnswer {
+export interface ImprovedAnswer {
+  questionNumber: number;
+  kind: AnswerKind;
+  /** 1-based follow-up round; null for the main answer. */
+  followUpRound: number | null;
   question: string;
-  answer: string;
+  original: string;
+  improved: string;
+  changes: AnswerDiffSpan[];
+  /** GET link that speaks the improved answer, for shadowing practice. */
+  audioUrl: string;
+}
+
+/** How a retried answer changed between attempts. */
+export interface AttemptComparison {
+  questionNumber: number;
+  attempts: number;
+  improvement: string;
 }
 
 export interface InterviewFeedback {
   timingSummary: TimingSummary;
+  /** Speaking metrics from audio answers; null when every answer was typed. */
+  fluency: FluencySummary | null;
+  /** Likely mispronounced words from audio answers; null when none were assessed. */
+  pronunciation: PronunciationSummary | null;
+  /** Rubric scores; null when the coach returned none that were valid. */
+  scores: ScoreCard | null;
+  /** CEFR estimate; null when the coach did not level every skill. */
+  proficiency: ProficiencyAssessment | null;
   corrections: CorrectionItem[];
-  improvedBestAnswer: ImprovedBestAnswer;
+  vocabulary: VocabularySuggestion[];
+  /** One per answer the coach rewrote, in transcript order. */
+  improvedAnswers: ImprovedAnswer[];
   interviewTips: string[];
+  /** One per question that was retried; empty when nothing was retried. */
+  attemptComparisons: AttemptComparison[];
+  /** True when some questions were skipped or the session was ended early. */
+  partial: boolean;
+}
+
+export interface SessionQuestion {
+  questionId: string;
+  text: string;
+  category: QuestionCategory;
+  difficulty: QuestionDifficulty;
+}
+
+/** A later attempt at a turn's main question, made through a retry. */
+export interface AnswerAttempt {
+  answer: string;
+  answeredAt: string;
+  responseDelaySec: number;
+  leadingSilenceSec: number | null;
+  fluency: AnswerFluency | null;
+  pronunciation: AssessedWord[] | null;
+  feedback: AnswerFeedback | null;
+}
+
+/** One answered follow-up question on a turn. */
+export interface FollowUpRound {
+  question: string;
+  answer: string;
+  responseDelaySec: number;
+  leadingSilenceSec: number | null;
+  fluency: AnswerFluency | null;
+  pronunciation: AssessedWord[] | null;
+  feedback: AnswerFeedback | null;
 }
 
 export interface SessionTurn {
+  questionId: string;
   question: string;
   answer: string;
-  followUpQuestion: string | null;
-  followUpAnswer: string | null;
+  /** Server-measured hesitation before answering; see SubmitAnswerUseCase. */
   mainResponseDelaySec: number;
-  followUpResponseDelaySec: number | null;
+  mainLeadingSilenceSec: number | null;
+  mainFluency: AnswerFluency | null;
+  /** Low-confidence words; null when the answer was typed or could not be assessed. */
+  mainPronunciation: AssessedWord[] | null;
+  /** Coach-mode feedback shown right after the answer; null outside coach mode. */
+  mainFeedback: AnswerFeedback | null;
+  /** Answered follow-up rounds, in the order they were asked. */
+  followUps: FollowUpRound[];
+  /** Retries of the main question, oldest first; `answer` stays the first attempt. */
+  retries: AnswerAttempt[];
+  /** Adaptive sessions only; null otherwise or when the coach could not rate the answer. */
+  answerRating: AnswerRating | null;
+  /** Adaptive sessions only: the question chosen after this turn; null after the last one. */
+  nextQuestionSelection: QuestionSelection | null;
+}
+
+/** Progress of the background job that writes a session's final feedback. */
+export interface FeedbackGeneration {
+  state: 'queued' | 'running' | 'failed';
+  attempts: number;
+  /** Why the last attempt failed; kept while a retry is queued. */
+  lastError: string | null;
+  queuedAt: string;
+  /** When a queued retry is due; null when it can run right away. */
+  nextAttemptAt: string | null;
+  /** The status the session takes once the feedback is ready. */
+  completesAs: 'completed' | 'abandoned';
 }
 
 export interface InterviewSession {
   id: string;
+  version: number;
+  userId: string;
   createdAt: string;
+  /** Last save; set by the repository and used to expire idle sessions. */
+  updatedAt: string;
   status: SessionStatus;
-  allowFollowUps: boolean;
-  questions: string[];
+  templateId: string | null;
+  /** Who the interviewer is in prompts: the template's description, or the persona's. */
+  coachPersona: string;
+  interviewerPersona: InterviewerPersona;
+  timeLimits: TimeLimits | null;
+  /** Follow-up rounds the interviewer may ask per question; 0 turns follow-ups off. */
+  maxFollowUps: number;
+  /** Coach each answer as it is given instead of only at the end. */
+  coachMode: boolean;
+  /**
+   * Pick each next question after the previous answer instead of up front;
+   * `questions` past the current one are placeholders until then.
+   */
+  adaptive: boolean;
+  questions: SessionQuestion[];
   questionIndex: number;
+  /** Questions passed over without an answer; they have no turn. */
+  skippedQuestionIds: string[];
   awaitingFollowUp: boolean;
+  /** The follow-up being asked; it joins the turn's followUps once answered. */
   pendingFollowUpQuestion: string | null;
+  /** 1-based question being re-answered; it is served before the regular prompt. */
+  retryQuestionNumber: number | null;
+  /** When the current prompt was first served; null once completed. */
+  promptServedAt: string | null;
   turns: SessionTurn[];
   result: InterviewFeedback | null;
+  /** Set while the status is `generating_feedback`. */
+  feedbackGeneration: FeedbackGeneration | null;
 }
@@ -0,0 +1,6 @@
+export interface User {
+  id: string;
+  name: string;
+  apiKeyHash: string;
+  createdAt: string;
+}
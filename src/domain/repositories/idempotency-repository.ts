@@ -0,0 +1,14 @@
+export interface IdempotencyRecord<T = unknown> {
+  sessionId: string;
+  key: string;
+  requestFingerprint: string;
+  response: T;
+  createdAt: string;
+}
+
+export interface IdempotencyRepository {
+  find<T>(sessionId: string, key: string): Promise<IdempotencyRecord<T> | null>;
+  save<T>(record: IdempotencyRecord<T>): Promise<void>;
+  /** Deletes records created before `createdBefore`; returns how many were deleted. */
+  sweep(createdBefore: string): Promise<number>;
+}
@@ -0,0 +1,24 @@
+import type { NotebookItem, NotebookItemKind } from '../entities/notebook.js';
+
+export interface NotebookQuery {
+  userId: string;
+  kind?: NotebookItemKind;
+  /** Only items due for review at this time; they are listed soonest due first. */
+  dueAt?: string;
+  limit: number;
+  offset: number;
+}
+
+export interface NotebookPage {
+  items: NotebookItem[];
+  total: number;
+}
+
+export interface NotebookRepository {
+  create(item: NotebookItem): Promise<void>;
+  findById(itemId: string): Promise<NotebookItem | null>;
+  findByKey(userId: string, kind: NotebookItemKind, key: string): Promise<NotebookItem | null>;
+  /** Without `dueAt`, items are listed most recently updated first. */
+  list(query: NotebookQuery): Promise<NotebookPage>;
+  save(item: NotebookItem): Promise<void>;
+}
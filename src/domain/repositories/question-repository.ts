@@ -0,0 +1,16 @@
+import type { Question, QuestionCategory, QuestionDifficulty } from '../entities/question.js';
+
+export interface QuestionFilter {
+  categories?: QuestionCategory[];
+  difficulties?: QuestionDifficulty[];
+  /** Matches questions carrying at least one of these tags. */
+  tags?: string[];
+  includeRetired?: boolean;
+}
+
+export interface QuestionRepository {
+  create(question: Question): Promise<void>;
+  findById(questionId: string): Promise<Question | null>;
+  list(filter?: QuestionFilter): Promise<Question[]>;
+  save(question: Question): Promise<void>;
+}
@@ -1,7 +1,35 @@
-import type { InterviewSession } from '../entities/session.js';
+import type { InterviewSession, SessionStatus } from '../entities/session.js';
+
+export interface SessionListQuery {
+  userId: string;
+  status?: SessionStatus;
+  limit: number;
+  offset: number;
+}
+
+export interface SessionPage {
+  items: InterviewSession[];
+  total: number;
+}
 
 export interface SessionRepository {
   create(session: InterviewSession): Promise<void>;
   findById(sessionId: string): Promise<InterviewSession | null>;
+  /** Newest first. */
+  listByUser(query: SessionListQuery): Promise<SessionPage>;
+  /** Across all users; used to pick up background work after a restart. */
+  findIdsByStatus(status: SessionStatus): Promise<string[]>;
+  /**
+   * Persists the session if `session.version` still matches the stored version,
+   * then bumps `session.version`. Throws ConflictError when the session was saved
+   * by someone else since it was loaded.
+   */
   save(session: InterviewSession): Promise<void>;
+  /**
+   * Marks in-progress sessions not saved since `idleBefore` as expired. A
+   * completed session reopened for a retry goes back to completed instead,
+   * keeping its feedback. Durable stores keep finished sessions as the user's
+   * history; a store that must bound its size may remove them and count them in `removed`.
+   */
+  sweep(idleBefore: string): Promise<{ expired: number; restored: number; removed: number }>;
 }
@@ -0,0 +1,6 @@
+import type { InterviewTemplate } from '../entities/interview-template.js';
+
+export interface TemplateRepository {
+  findById(templateId: string): Promise<InterviewTemplate | null>;
+  list(): Promise<InterviewTemplate[]>;
+}
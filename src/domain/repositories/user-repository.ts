@@ -0,0 +1,7 @@
+import type { User } from '../entities/user.js';
+
+export interface UserRepository {
+  create(user: User): Promise<void>;
+  findById(userId: string): Promise<User | null>;
+  findByApiKeyHash(apiKeyHash: string): Promise<User | null>;
+}
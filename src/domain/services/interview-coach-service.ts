@@ -1,28 +1,114 @@
-import type { InterviewFeedback, TimingSummary } from '../entities/session.js';
+import type { InterviewerPersona } from '../entities/interview-template.js';
+import type { QuestionCategory, QuestionDifficulty } from '../entities/question.js';
+import type {
+  AnswerFeedback,
+  AnswerKind,
+  AnswerRating,
+  CorrectionItem,
+  FluencySummary,
+  PronunciationSummary,
+  SkillLevel,
+  TimingSummary,
+  TurnRubric,
+  VocabularySuggestion
+} from '../entities/session.js';
 
 export interface InterviewerReply {
   replyText: string;
   followUpQuestion: string | null;
 }
 
+/** A follow-up question and the candidate's answer to it. */
+export interface FollowUpExchange {
+  question: string;
+  answer: string;
+}
+
 export interface TranscriptTurn {
   questionNumber: number;
   question: string;
   answer: string;
-  followUpQuestion: string | null;
-  followUpAnswer: string | null;
+  /** Answered follow-up rounds, in order. */
+  followUps: FollowUpExchange[];
+  /** Later attempts at the main question, oldest first. */
+  retries: string[];
+  /** Corrections the candidate already saw after this turn in coach mode; null otherwise. */
+  turnCorrections: CorrectionItem[] | null;
+}
+
+export interface InterviewerReplyParams {
+  persona: string;
+  /** The style the reply and any follow-up are worded in. */
+  interviewerPersona: InterviewerPersona;
+  question: string;
+  answer: string;
+  /** Rounds already answered on this question; the reply reacts to the last one when present. */
+  followUps: FollowUpExchange[];
+}
+
+export interface FollowUpCloseParams {
+  persona: string;
+  interviewerPersona: InterviewerPersona;
+  question: string;
+  answer: string;
+  followUps: FollowUpExchange[];
 }
 
+export interface AnswerFeedbackParams {
+  question: string;
+  answer: string;
+  /** Stamped on the returned corrections. */
+  questionNumber: number;
+}
+
+export interface AnswerRatingParams {
+  question: string;
+  category: QuestionCategory;
+  difficulty: QuestionDifficulty;
+  answer: string;
+}
+
+/** The coach's judgement of a finished interview; measured metrics are added by the caller. */
+export interface CoachFeedback {
+  corrections: CorrectionItem[];
+  /** Words and phrases worth learning, drawn from what the candidate tried to say. */
+  vocabulary: VocabularySuggestion[];
+  /** Rewrites of the candidate's answers; the caller adds the originals and the diff. */
+  improvedAnswers: Array<{
+    questionNumber: number;
+    kind: AnswerKind;
+    /** 1-based follow-up round; null for the main answer. */
+    followUpRound: number | null;
+    improved: string;
+  }>;
+  interviewTips: string[];
+  /** One rubric per transcript turn that could be scored. */
+  turnScores: TurnRubric[];
+  /** CEFR level per proficiency skill, judged over all answers and the timing data. */
+  proficiency: SkillLevel[];
+  /** For turns with retries: how the final attempt improved on the earlier ones. */
+  attemptComparisons: Array<{ questionNumber: number; improvement: string }>;
+}
+
+/** Receives spoken reply text as it is generated. */
+export type TextDeltaHandler = (delta: string) => void;
+
 export interface InterviewCoachService {
-  generateInterviewerReply(params: { question: string; answer: string }): Promise<InterviewerReply>;
-  generateFollowUpClose(params: {
-    question: string;
-    answer: string;
-    followUpQuestion: string;
-    followUpAnswer: string;
-  }): Promise<string>;
+  generateInterviewerReply(params: InterviewerReplyParams): Promise<InterviewerReply>;
+  /** Same result as generateInterviewerReply, emitting replyText as it is generated. */
+  streamInterviewerReply(
+    params: InterviewerReplyParams,
+    onDelta: TextDeltaHandler
+  ): Promise<InterviewerReply>;
+  generateFollowUpClose(params: FollowUpCloseParams): Promise<string>;
+  streamFollowUpClose(params: FollowUpCloseParams, onDelta: TextDeltaHandler): Promise<string>;
+  generateAnswerFeedback(params: AnswerFeedbackParams): Promise<AnswerFeedback>;
+  /** Null when the coach gave no usable rating. */
+  rateAnswer(params: AnswerRatingParams): Promise<AnswerRating | null>;
   generateFeedback(params: {
     timingSummary: TimingSummary;
+    fluency: FluencySummary | null;
+    pronunciation: PronunciationSummary | null;
     transcript: TranscriptTurn[];
-  }): Promise<InterviewFeedback>;
+  }): Promise<CoachFeedback>;
 }
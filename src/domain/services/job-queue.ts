@@ -0,0 +1,11 @@
+/**
+ * Background work that outlives the request that queued it. Delivery is
+ * at-least-once, so handlers must tolerate a job they already finished.
+ */
+export interface JobQueue<T> {
+  enqueue(job: T, options?: { delayMs?: number }): Promise<void>;
+  /** Starts delivering jobs to the handler; a queue has a single handler. */
+  process(handler: (job: T) => Promise<void>): void;
+  /** Stops taking jobs and waits for the running ones to finish. */
+  close(): Promise<void>;
+}
@@ -0,0 +1,9 @@
+import type { AssessedWord } from '../entities/session.js';
+
+export interface PronunciationAssessmentService {
+  /**
+   * Returns the words in the answer that were likely mispronounced. It works
+   * from the audio alone so it can run alongside the transcription.
+   */
+  assess(params: { audio: Buffer; mimeType: string }): Promise<AssessedWord[]>;
+}
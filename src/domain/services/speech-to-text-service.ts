@@ -1,3 +1,16 @@
+export interface TranscribedWord {
+  word: string;
+  startSec: number;
+  endSec: number;
+}
+
+export interface Transcription {
+  text: string;
+  /** Word timestamps when the model provides them; empty otherwise. */
+  words: TranscribedWord[];
+  durationSec: number | null;
+}
+
 export interface SpeechToTextService {
-  transcribe(params: { audio: Buffer; mimeType: string }): Promise<string>;
+  transcribe(params: { audio: Buffer; mimeType: string }): Promise<Transcription>;
 }
@@ -0,0 +1,24 @@
+import { ValidationError } from '../../application/errors/validation-error.js';
+import type { AssessedWord } from '../../domain/entities/session.js';
+import type { PronunciationAssessmentService } from '../../domain/services/pronunciation-assessment-service.js';
+import type { SpeechToTextService, Transcription } from '../../domain/services/speech-to-text-service.js';
+import type { TextToSpeechService } from '../../domain/services/text-to-speech-service.js';
+
+/** Stand-ins used when no speech provider is configured: text answers work, audio is refused. */
+export class OfflineSpeechToTextService implements SpeechToTextService {
+  async transcribe(): Promise<Transcription> {
+    throw new ValidationError('Audio answers need OPENAI_API_KEY for transcription; send answerText instead.');
+  }
+}
+
+export class OfflineTextToSpeechService implements TextToSpeechService {
+  async synthesize(): Promise<Buffer> {
+    throw new ValidationError('Speech synthesis needs OPENAI_API_KEY.');
+  }
+}
+
+export class OfflinePronunciationAssessmentService implements PronunciationAssessmentService {
+  async assess(): Promise<AssessedWord[]> {
+    return [];
+  }
+}
@@ -0,0 +1,662 @@
+import type {
+  AnswerFeedbackParams,
+  AnswerRatingParams,
+  CoachFeedback,
+  FollowUpCloseParams,
+  InterviewCoachService,
+  InterviewerReply,
+  InterviewerReplyParams,
+  TextDeltaHandler,
+  TranscriptTurn
+} from '../../domain/services/interview-coach-service.js';
+import type { InterviewerPersona } from '../../domain/entities/interview-template.js';
+import {
+  CEFR_LEVELS,
+  type AnswerFeedback,
+  type AnswerRating,
+  type CefrLevel,
+  type CorrectionCategory,
+  type CorrectionItem,
+  type CriterionScore,
+  type FluencySummary,
+  type PronunciationSummary,
+  type SkillLevel,
+  type TimingSummary,
+  type TurnRubric,
+  type VocabularySuggestion
+} from '../../domain/entities/session.js';
+
+interface GrammarRule {
+  pattern: RegExp;
+  replacement: string | ((match: string, ...groups: string[]) => string);
+  reason: string;
+  category: CorrectionCategory;
+}
+
+const BASE_FORMS: Record<string, string> = {
+  goes: 'go',
+  does: 'do',
+  has: 'have',
+  wants: 'want',
+  needs: 'need',
+  works: 'work',
+  likes: 'like',
+  thinks: 'think',
+  uses: 'use',
+  makes: 'make'
+};
+
+/** Common learner mistakes in interview answers; each match becomes one correction. */
+const GRAMMAR_RULES: GrammarRule[] = [
+  {
+    pattern: /\b(he|she|it) don't\b/gi,
+    replacement: "$1 doesn't",
+    reason: 'Use "doesn\'t" with he, she and it.',
+    category: 'grammar'
+  },
+  {
+    pattern: new RegExp(`\\b(I|you|we|they) (${Object.keys(BASE_FORMS).join('|')})\\b`, 'g'),
+    replacement: (_match, subject, verb) => `${subject} ${BASE_FORMS[verb]}`,
+    reason: 'The verb takes no -s after I, you, we and they.',
+    category: 'grammar'
+  },
+  {
+    pattern: /\bI am agree\b/gi,
+    replacement: 'I agree',
+    reason: '"Agree" is a verb, so it needs no "am".',
+    category: 'grammar'
+  },
+  {
+    pattern: /\bmore (better|worse|faster|easier|bigger|simpler|cheaper)\b/gi,
+    replacement: '$1',
+    reason: 'Use either "more" or the -er form, not both.',
+    category: 'grammar'
+  },
+  {
+    pattern: /\bI have (\w+ed) (yesterday|last week|last month|last year)\b/gi,
+    replacement: 'I $1 $2',
+    reason: 'Use the past simple with a finished time such as "yesterday" or "last year".',
+    category: 'tense'
+  },
+  {
+    pattern: /\b([Aa]) (?!one|use|uni|eu)([aeiouAEIOU]\w*)\b/g,
+    replacement: '$1n $2',
+    reason: 'Use "an" before a vowel sound.',
+    category: 'articles'
+  },
+  {
+    pattern: /\ban ([bcdfgjklmnpqrstvwxyz][a-z]*)\b/g,
+    replacement: 'a $1',
+    reason: 'Use "a" before a consonant sound.',
+    category: 'articles'
+  },
+  {
+    pattern: /\b(depends?) of\b/gi,
+    replacement: '$1 on',
+    reason: '"Depend" takes "on".',
+    category: 'prepositions'
+  },
+  {
+    pattern: /\bdiscuss about\b/gi,
+    replacement: 'discuss',
+    reason: '"Discuss" takes a direct object, without "about".',
+    category: 'prepositions'
+  },
+  {
+    pattern: /\bexplain me\b/gi,
+    replacement: 'explain to me',
+    reason: '"Explain" needs "to" before the listener.',
+    category: 'prepositions'
+  },
+  {
+    pattern: /\bsince (\d+|two|three|four|five|six|several|many) (years|months|weeks|days)\b/gi,
+    replacement: 'for $1 $2',
+    reason: 'Use "for" with a length of time and "since" with a starting point.',
+    category: 'prepositions'
+  },
+  {
+    pattern: /\bmake a research\b/gi,
+    replacement: 'do research',
+    reason: '"Research" is uncountable and goes with "do".',
+    category: 'word_choice'
+  },
+  {
+    pattern: /\bin the last years\b/gi,
+    replacement: 'in recent years',
+    reason: '"In recent years" is the natural phrase.',
+    category: 'word_choice'
+  }
+];
+
+interface VocabularyUpgrade {
+  pattern: RegExp;
+  replacement: string;
+  term: string;
+  meaning: string;
+}
+
+/** Plain wording common in interview answers, with a more precise alternative. */
+const VOCABULARY_UPGRADES: VocabularyUpgrade[] = [
+  {
+    pattern: /\bmade (it|the \w+) (better|faster)\b/i,
+    replacement: 'improved $1',
+    term: 'improve',
+    meaning: 'to make something better, usually in a measurable way'
+  },
+  {
+    pattern: /\bfix(ed)? (the|a|this|that) (bug|problem|issue)\b/i,
+    replacement: 'resolved $2 $3',
+    term: 'resolve',
+    meaning: 'to find a lasting solution to a problem'
+  },
+  {
+    pattern: /\b(a )?(very )?big (problem|issue)\b/i,
+    replacement: '$1significant $3',
+    term: 'significant',
+    meaning: 'large or important enough to have an effect'
+  },
+  {
+    pattern: /\ba lot of\b/i,
+    replacement: 'a considerable amount of',
+    term: 'considerable',
+    meaning: 'large in size or amount'
+  },
+  {
+    pattern: /\bthink about\b/i,
+    replacement: 'consider',
+    term: 'consider',
+    meaning: 'to think carefully about something before deciding'
+  },
+  {
+    pattern: /\btalked (to|with)\b/i,
+    replacement: 'aligned with',
+    term: 'align with',
+    meaning: 'to agree on a shared plan with other people'
+  },
+  {
+    pattern: /\b(very|really) (slow|fast)\b/i,
+    replacement: 'noticeably $2',
+    term: 'noticeably',
+    meaning: 'clearly enough to be seen or measured'
+  },
+  {
+    pattern: /\bshow(ed)? that\b/i,
+    replacement: 'demonstrated that',
+    term: 'demonstrate',
+    meaning: 'to prove something by giving evidence'
+  }
+];
+
+const STAR_MARKERS = [
+  /\b(when|project|team|company|situation|problem|we had)\b/i,
+  /\b(I (decided|built|implemented|designed|wrote|led|added|changed|introduced)|my (role|task))\b/i,
+  /\b(result|as a result|reduced|improved|increased|saved|so that|learned)\b|\d+ ?%/i
+];
+
+const TECHNICAL_TERMS = new RegExp(
+  `\\b(${[
+    'api',
+    'database',
+    'cach(e|ing)',
+    'index',
+    'queue',
+    'latency',
+    'throughput',
+    'test(s|ing)?',
+    'deploy(ment)?',
+    'scal(e|ing|ability)',
+    '(micro)?services?',
+    'schema',
+    'query',
+    'concurrency',
+    'threads?',
+    'memory',
+    'cpu',
+    'monitoring',
+    'metrics?',
+    'logging',
+    'pipeline',
+    'refactor(ing)?',
+    'architecture',
+    'algorithm',
+    'complexity',
+    'transactions?',
+    'replicas?',
+    'shard(ing)?',
+    'load balancer',
+    'kubernetes',
+    'docker'
+  ].join('|')})\\b`,
+  'gi'
+);
+
+/** Subordinate clauses, perfect and passive forms, and conditionals: structures beyond simple sentences. */
+const COMPLEX_STRUCTURES =
+  /\b(because|although|though|whereas|while|unless|which|whose|so that|in order to)\b|\b(have|has|had|was|were|been) \w+ed\b|\b(would|could|might) \w+/gi;
+
+const LINKING_WORDS = [
+  'first',
+  'then',
+  'after that',
+  'finally',
+  'however',
+  'because',
+  'so',
+  'as a result',
+  'for example',
+  'for instance',
+  'therefore',
+  'in addition',
+  'also',
+  'on the other hand',
+  'in the end'
+];
+
+/** Lexical diversity is measured on this many words, so long answers are not penalized for repeating "the". */
+const DIVERSITY_SAMPLE_WORDS = 150;
+/** Short interviews show too little to rate a skill highly: each band needs this many more words. */
+const WORDS_PER_BAND = 25;
+
+interface PersonaStyle {
+  replies: string[];
+  close: string;
+  /** Asked when the answer is short. */
+  askExample: string;
+  /** Asked when the answer gives no numbers; null when the persona does not ask for them. */
+  askImpact: string | null;
+  /** Asked of answers that pass the other checks; null when the persona lets them be. */
+  challenge: string | null;
+}
+
+const PERSONA_STYLES: Record<InterviewerPersona, PersonaStyle> = {
+  friendly: {
+    replies: [
+      'Thanks, that helps me understand your approach.',
+      'Got it, thank you for walking me through that.',
+      'Thanks, that gives me a good picture.'
+    ],
+    close: 'Thanks for clarifying.',
+    askExample: 'Could you give a concrete example from a project you worked on?',
+    askImpact: 'How did you measure the impact of that?',
+    challenge: null
+  },
+  skeptical_bar_raiser: {
+    replies: ["Okay. I'm not convinced yet.", 'Hm, let me push on that.', "Noted, but I'd like more evidence."],
+    close: "Okay, I'll take that into account.",
+    askExample: 'That sounds generic. What exactly did you do yourself, on which project?',
+    askImpact: 'What numbers show that it actually worked?',
+    challenge: 'What would have gone wrong with the obvious alternative, and why did you rule it out?'
+  },
+  hurried_hiring_manager: {
+    replies: ['Okay, noted.', 'Right, got it.', 'Fine, moving on.'],
+    close: 'Got it, thanks.',
+    askExample: 'Quickly: what was your part, and what was the result?',
+    askImpact: null,
+    challenge: null
+  }
+};
+
+const MAX_FEEDBACK_CORRECTIONS = 8;
+const MAX_ANSWER_CORRECTIONS = 3;
+const MAX_VOCABULARY = 5;
+
+/**
+ * A deterministic coach built from fixed grammar rules and answer heuristics,
+ * for running without a language model (dev, CI, demos). The same input always
+ * gets the same reply, follow-up, corrections, scores and CEFR levels.
+ */
+export class RuleBasedInterviewCoachService implements InterviewCoachService {
+  /** Probes the latest answer, never asking the same follow-up twice on one question. */
+  async generateInterviewerReply(params: InterviewerReplyParams): Promise<InterviewerReply> {
+    const style = PERSONA_STYLES[params.interviewerPersona];
+    const answer = params.followUps[params.followUps.length - 1]?.answer ?? params.answer;
+    const words = countWords(answer);
+    const asked = new Set(params.followUps.map((round) => round.question));
+    const followUpQuestion = words < 40 ? style.askExample : /\d/.test(answer) ? style.challenge : style.askImpact;
+    return {
+      replyText: style.replies[words % style.replies.length],
+      followUpQuestion: followUpQuestion && !asked.has(followUpQuestion) ? followUpQuestion : null
+    };
+  }
+
+  async streamInterviewerReply(
+    params: InterviewerReplyParams,
+    onDelta: TextDeltaHandler
+  ): Promise<InterviewerReply> {
+    const reply = await this.generateInterviewerReply(params);
+    streamWords(reply.replyText, onDelta);
+    return reply;
+  }
+
+  async generateFollowUpClose(params: FollowUpCloseParams): Promise<string> {
+    return PERSONA_STYLES[params.interviewerPersona].close;
+  }
+
+  async streamFollowUpClose(params: FollowUpCloseParams, onDelta: TextDeltaHandler): Promise<string> {
+    const text = await this.generateFollowUpClose(params);
+    streamWords(text, onDelta);
+    return text;
+  }
+
+  async generateAnswerFeedback(params: AnswerFeedbackParams): Promise<AnswerFeedback> {
+    return {
+      corrections: findCorrections(params.answer, params.questionNumber).slice(0, MAX_ANSWER_CORRECTIONS),
+      improvedAnswer: improve(params.answer)
+    };
+  }
+
+  async rateAnswer(params: AnswerRatingParams): Promise<AnswerRating> {
+    const { criteria } = scoreTurn(1, params.answer);
+    // The answer's English is rated in the final feedback, not here.
+    const content = criteria.filter((item) => item.criterion !== 'grammar' && item.criterion !== 'vocabulary');
+    const weakest = content.reduce((lowest, item) => (item.score < lowest.score ? item : lowest));
+    return {
+      score: clampScore(content.reduce((sum, item) => sum + item.score, 0) / content.length),
+      reason: `Weakest on ${weakest.criterion.replace('_', ' ')}: ${weakest.justification}`
+    };
+  }
+
+  async generateFeedback(params: {
+    timingSummary: TimingSummary;
+    fluency: FluencySummary | null;
+    pronunciation: PronunciationSummary | null;
+    transcript: TranscriptTurn[];
+  }): Promise<CoachFeedback> {
+    const finalAnswers = params.transcript.map((turn) => ({
+      turn,
+      answer: turn.retries[turn.retries.length - 1] ?? turn.answer
+    }));
+
+    const turnAnswers = finalAnswers.map(({ turn, answer }) => ({
+      turn,
+      answers: [answer, ...turn.followUps.map((round) => round.answer)]
+    }));
+
+    const corrections = turnAnswers
+      .flatMap(({ turn, answers }) => answers.flatMap((text) => findCorrections(text, turn.questionNumber)))
+      .slice(0, MAX_FEEDBACK_CORRECTIONS);
+
+    const vocabulary = turnAnswers
+      .flatMap(({ turn, answers }) => answers.flatMap((text) => suggestVocabulary(text, turn.questionNumber)))
+      .filter((item, index, all) => all.findIndex((other) => other.term === item.term) === index)
+      .slice(0, MAX_VOCABULARY);
+
+    // The first answer is the main one; the rest are the follow-up rounds in order.
+    const improvedAnswers = turnAnswers.flatMap(({ turn, answers }) =>
+      answers.flatMap((text, index) =>
+        improve(text) !== text.trim()
+          ? [
+              {
+                questionNumber: turn.questionNumber,
+                kind: index ? ('follow_up' as const) : ('main' as const),
+                followUpRound: index || null,
+                improved: improve(text)
+              }
+            ]
+          : []
+      )
+    );
+
+    return {
+      corrections,
+      vocabulary,
+      improvedAnswers,
+      interviewTips: buildTips(params, finalAnswers.map(({ answer }) => answer)),
+      turnScores: turnAnswers.map(({ turn, answers }) => scoreTurn(turn.questionNumber, answers.join(' '))),
+      proficiency: assessProficiency(params, turnAnswers.flatMap(({ answers }) => answers)),
+      attemptComparisons: params.transcript
+        .filter((turn) => turn.retries.length)
+        .map((turn) => ({
+          questionNumber: turn.questionNumber,
+          improvement: compareAttempt(turn.answer, turn.retries[turn.retries.length - 1])
+        }))
+    };
+  }
+}
+
+function findCorrections(text: string, questionNumber: number): CorrectionItem[] {
+  return GRAMMAR_RULES.flatMap((rule) =>
+    [...text.matchAll(rule.pattern)].map((match) => ({
+      original: match[0],
+      corrected: applyRule(match[0], rule),
+      reason: rule.reason,
+      category: rule.category,
+      questionNumber
+    }))
+  );
+}
+
+/** The example is the candidate's own sentence with the upgrade applied. */
+function suggestVocabulary(text: string, questionNumber: number): VocabularySuggestion[] {
+  const sentences = text.split(/(?<=[.!?])\s+/);
+  return VOCABULARY_UPGRADES.flatMap((upgrade) => {
+    const sentence = sentences.find((candidate) => upgrade.pattern.test(candidate));
+    const match = sentence?.match(upgrade.pattern);
+    if (!sentence || !match) {
+      return [];
+    }
+    return [
+      {
+        term: upgrade.term,
+        meaning: upgrade.meaning,
+        replaces: match[0],
+        example: improve(sentence.replace(upgrade.pattern, upgrade.replacement)),
+        questionNumber
+      }
+    ];
+  });
+}
+
+function improve(text: string): string {
+  const fixed = GRAMMAR_RULES.reduce((current, rule) => applyRule(current, rule), text.trim());
+  const capitalized = fixed.charAt(0).toUpperCase() + fixed.slice(1);
+  return /[.!?]$/.test(capitalized) || !capitalized ? capitalized : `${capitalized}.`;
+}
+
+/** A fix at the start of a sentence stays capitalized: "Discuss about" becomes "Discuss", not "discuss". */
+function applyRule(text: string, rule: GrammarRule): string {
+  return text.replace(rule.pattern, (match: string, ...groups: string[]) => {
+    const fixed =
+      typeof rule.replacement === 'string'
+        ? rule.replacement.replace(/\$(\d)/g, (_token, group: string) => groups[Number(group) - 1] ?? '')
+        : rule.replacement(match, ...groups);
+    return /^[A-Z]/.test(match) ? fixed.charAt(0).toUpperCase() + fixed.slice(1) : fixed;
+  });
+}
+
+function scoreTurn(questionNumber: number, answer: string): TurnRubric {
+  const words = countWords(answer);
+  const starParts = STAR_MARKERS.filter((marker) => marker.test(answer)).length;
+  const technicalTerms = new Set((answer.match(TECHNICAL_TERMS) ?? []).map((term) => term.toLowerCase())).size;
+  const mistakes = findCorrections(answer, questionNumber).length;
+  const sentences = answer.split(/[.!?]+/).filter((sentence) => sentence.trim()).length || 1;
+  const wordsPerSentence = words / sentences;
+  const tokens = answer.toLowerCase().match(/[a-z']+/g) ?? [];
+  const diversity = tokens.length ? new Set(tokens).size / tokens.length : 0;
+
+  const criteria: CriterionScore[] = [
+    {
+      criterion: 'structure',
+      score: clampScore(1 + starParts + (words >= 80 ? 1 : 0)),
+      justification: `The answer covers ${starParts} of situation, action and result.`
+    },
+    {
+      criterion: 'technical_depth',
+      score: clampScore(1 + technicalTerms + (/\d/.test(answer) ? 1 : 0)),
+      justification: `The answer mentions ${technicalTerms} technical concept${technicalTerms === 1 ? '' : 's'}.`
+    },
+    {
+      criterion: 'clarity',
+      score: clampScore(
+        wordsPerSentence <= 25 ? 5 - (words < 20 ? 2 : 0) : 5 - Math.ceil((wordsPerSentence - 25) / 10)
+      ),
+      justification: `Sentences average ${Math.round(wordsPerSentence)} words.`
+    },
+    {
+      criterion: 'grammar',
+      score: clampScore(5 - mistakes),
+      justification: mistakes
+        ? `Found ${mistakes} common grammar mistake${mistakes === 1 ? '' : 's'}.`
+        : 'No common mistakes found.'
+    },
+    {
+      criterion: 'vocabulary',
+      score: clampScore(Math.min(words < 20 ? 3 : 5, Math.floor(diversity * 10) - 2)),
+      justification: `${Math.round(diversity * 100)}% of the words are distinct.`
+    }
+  ];
+
+  return { questionNumber, criteria };
+}
+
+/** Maps each skill to a 0–4 band (A2–C2) from counts over all answers, capped by how much was said. */
+function assessProficiency(
+  params: { timingSummary: TimingSummary; fluency: FluencySummary | null },
+  answers: string[]
+): SkillLevel[] {
+  if (!answers.length) {
+    return [];
+  }
+
+  const text = answers.join(' ');
+  const words = countWords(text);
+  const sentences = answers.flatMap((answer) => answer.split(/[.!?]+/).filter((part) => part.trim())).length;
+  const complexStructures = (text.match(COMPLEX_STRUCTURES) ?? []).length;
+  const mistakesPer100Words = (answers.flatMap((answer) => findCorrections(answer, 0)).length / Math.max(1, words)) * 100;
+
+  const tokens = (text.toLowerCase().match(/[a-z']+/g) ?? []).slice(0, DIVERSITY_SAMPLE_WORDS);
+  const diversity = tokens.length ? new Set(tokens).size / tokens.length : 0;
+  const longWordShare = tokens.length ? tokens.filter((token) => token.length >= 8).length / tokens.length : 0;
+
+  const lowerText = ` ${text.toLowerCase().replace(/[^a-z\s]/g, ' ')} `;
+  const linkers = LINKING_WORDS.filter((linker) => lowerText.includes(` ${linker} `)).length;
+  const level = (band: number) => cefrLevel(Math.min(band, words / WORDS_PER_BAND));
+
+  return [
+    {
+      skill: 'grammar_range',
+      level: level((complexStructures / (sentences || 1)) * 3 + 1 - mistakesPer100Words / 2),
+      justification:
+        `${plural(complexStructures, 'complex structure')} across ${plural(sentences, 'sentence')}, ` +
+        `with ${round(mistakesPer100Words)} common mistakes per 100 words.`
+    },
+    {
+      skill: 'vocabulary_range',
+      level: level((diversity - 0.5) * 6 + longWordShare * 12),
+      justification:
+        `${Math.round(diversity * 100)}% of the words are distinct and ` +
+        `${Math.round(longWordShare * 100)}% have eight letters or more.`
+    },
+    {
+      skill: 'coherence',
+      level: level(linkers * 0.7),
+      justification: `The answers use ${plural(linkers, 'different linking expression')}.`
+    },
+    assessFluency(params, words, level)
+  ];
+}
+
+function assessFluency(
+  params: { timingSummary: TimingSummary; fluency: FluencySummary | null },
+  words: number,
+  level: (band: number) => CefrLevel
+): SkillLevel {
+  const { timingSummary, fluency } = params;
+  const longPausesPerTurn = timingSummary.totalTurns ? timingSummary.longPausesCount / timingSummary.totalTurns : 0;
+  let band = 4 - Math.min(2, timingSummary.avgResponseDelaySec / 3) - longPausesPerTurn * 2;
+
+  if (fluency) {
+    const fillersPer100Words = (fluency.fillerWordCount / Math.max(1, words)) * 100;
+    const rate = fluency.avgWordsPerMinute;
+    band -= fillersPer100Words / 3 + (rate !== null && (rate < 110 || rate > 170) ? 1 : 0);
+    return {
+      skill: 'fluency',
+      level: level(band),
+      justification:
+        `${rate === null ? 'Speaking rate unmeasured' : `Spoke at ${rate} words per minute`}, with ` +
+        `${plural(fluency.fillerWordCount, 'filler word')} and an average response delay of ` +
+        `${timingSummary.avgResponseDelaySec} seconds.`
+    };
+  }
+
+  return {
+    skill: 'fluency',
+    level: level(band),
+    justification: `Typed answers only; the average response delay was ${timingSummary.avgResponseDelaySec} seconds.`
+  };
+}
+
+function buildTips(
+  params: {
+    timingSummary: TimingSummary;
+    fluency: FluencySummary | null;
+    pronunciation: PronunciationSummary | null;
+  },
+  answers: string[]
+): string[] {
+  const tips: string[] = [];
+  const { fluency, pronunciation, timingSummary } = params;
+
+  if (fluency?.avgWordsPerMinute != null && fluency.avgWordsPerMinute < 110) {
+    tips.push(`You spoke at ${fluency.avgWordsPerMinute} words per minute; aim for 120 to 150 to sound confident.`);
+  } else if (fluency?.avgWordsPerMinute != null && fluency.avgWordsPerMinute > 170) {
+    tips.push(`You spoke at ${fluency.avgWordsPerMinute} words per minute; slow down so key points land.`);
+  } else if (fluency?.fillerWordCount) {
+    const [topFiller] = Object.entries(fluency.fillerWords).sort(([, a], [, b]) => b - a)[0];
+    tips.push(`You used ${fluency.fillerWordCount} filler words, mostly "${topFiller}"; pause silently instead.`);
+  }
+
+  if (pronunciation?.practiceWords.length) {
+    const words = pronunciation.practiceWords.slice(0, 3).map((word) => `"${word.word}"`);
+    tips.push(`Rehearse the pronunciation of ${words.join(', ')}.`);
+  }
+
+  if (timingSummary.longPausesCount) {
+    tips.push('Buy thinking time out loud, for example "Let me think about that for a second."');
+  }
+  if (answers.some((answer) => countWords(answer) < 40)) {
+    tips.push('Give longer answers using STAR: situation, task, action and result.');
+  }
+  tips.push('Quantify your results with numbers such as latency, cost or time saved.');
+
+  return tips.slice(0, 3);
+}
+
+function compareAttempt(first: string, final: string): string {
+  const mistakesBefore = findCorrections(first, 0).length;
+  const mistakesAfter = findCorrections(final, 0).length;
+  const length = `The final attempt has ${countWords(final)} words against ${countWords(first)} at first`;
+  if (mistakesAfter < mistakesBefore) {
+    return `${length} and fixes ${mistakesBefore - mistakesAfter} of the earlier mistakes.`;
+  }
+  if (mistakesAfter > mistakesBefore) {
+    return `${length} but has ${mistakesAfter - mistakesBefore} more common mistakes.`;
+  }
+  return `${length}, with the same number of common mistakes.`;
+}
+
+function streamWords(text: string, onDelta: TextDeltaHandler): void {
+  for (const word of text.split(/(?<=\s)/)) {
+    onDelta(word);
+  }
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function cefrLevel(band: number): CefrLevel {
+  return CEFR_LEVELS[Math.min(CEFR_LEVELS.length - 1, Math.max(0, Math.round(band)))];
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(2));
+}
+
+function clampScore(score: number): number {
+  return Math.min(5, Math.max(1, Math.round(score)));
+}
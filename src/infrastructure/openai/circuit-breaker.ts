@@ -0,0 +1,77 @@
+import { UpstreamUnavailableError } from '../../application/errors/upstream-unavailable-error.js';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit. */
+  failureThreshold: number;
+  /** How long an open circuit rejects calls before letting one through as a probe. */
+  cooldownMs: number;
+  /** Which errors mean the upstream is down; any other error passes through unchanged. */
+  isFailure(error: unknown): boolean;
+}
+
+/**
+ * Stops calling an upstream that keeps failing so requests fail fast with a
+ * 503 instead of each waiting out its own timeouts and retries. After the
+ * cooldown a single probe call decides whether the circuit closes again.
+ */
+export class CircuitBreaker {
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private probeInFlight = false;
+
+  constructor(
+    private readonly upstreamName: string,
+    private readonly options: CircuitBreakerOptions
+  ) {}
+
+  async run<T>(operation: () => Promise<T>): Promise<T> {
+    const isProbe = this.admit();
+    try {
+      const result = await operation();
+      this.reset();
+      return result;
+    } catch (error) {
+      if (!this.options.isFailure(error)) {
+        // The upstream answered, so it is up; the error is about this request.
+        this.reset();
+        throw error;
+      }
+
+      this.consecutiveFailures += 1;
+      if (isProbe || this.consecutiveFailures >= this.options.failureThreshold) {
+        this.openedAt = Date.now();
+      }
+      throw this.unavailable(error);
+    } finally {
+      if (isProbe) {
+        this.probeInFlight = false;
+      }
+    }
+  }
+
+  /** Returns whether the call is the half-open probe; throws while the circuit is open. */
+  private admit(): boolean {
+    if (this.openedAt === null) {
+      return false;
+    }
+    if (this.probeInFlight || Date.now() - this.openedAt < this.options.cooldownMs) {
+      throw this.unavailable();
+    }
+    this.probeInFlight = true;
+    return true;
+  }
+
+  private reset(): void {
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+  }
+
+  private unavailable(cause?: unknown): UpstreamUnavailableError {
+    const retryAfterMs = this.openedAt === null ? 0 : this.openedAt + this.options.cooldownMs - Date.now();
+    return new UpstreamUnavailableError(
+      `${this.upstreamName} is unavailable right now; try again shortly.`,
+      Math.max(1, Math.ceil(retryAfterMs / 1000)),
+      { cause }
+    );
+  }
+}
@@ -2,3 +2,9 @@ export const MODEL = process.env.COACH_MODEL || 'gpt-4.1-mini';
 export const STT_MODEL = process.env.COACH_STT_MODEL || 'gpt-4o-mini-transcribe';
 export const TTS_MODEL = process.env.COACH_TTS_MODEL || 'tts-1';
 export const TTS_VOICE = process.env.COACH_TTS_VOICE || 'nova';
+export const PRONUNCIATION_MODEL = process.env.COACH_PRONUNCIATION_MODEL || 'gpt-4o-mini-transcribe';
+/** Per HTTP attempt; the SDK retries timeouts, rate limits and server errors with exponential backoff. */
+export const UPSTREAM_TIMEOUT_MS = Number(process.env.UPSTREAM_TIMEOUT_MS || 30_000);
+export const UPSTREAM_MAX_RETRIES = Number(process.env.UPSTREAM_MAX_RETRIES || 2);
+export const UPSTREAM_BREAKER_THRESHOLD = Number(process.env.UPSTREAM_BREAKER_THRESHOLD || 5);
+export const UPSTREAM_BREAKER_COOLDOWN_MS = Number(process.env.UPSTREAM_BREAKER_COOLDOWN_MS || 30_000);
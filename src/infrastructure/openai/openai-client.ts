@@ -1,4 +1,5 @@
 import OpenAI from 'openai';
+import { UPSTREAM_MAX_RETRIES, UPSTREAM_TIMEOUT_MS } from './config.js';
 
 export function createOpenAIClient(): OpenAI {
   const apiKey = process.env.OPENAI_API_KEY?.trim();
@@ -6,7 +7,35 @@ export function createOpenAIClient(): OpenAI {
     throw new Error('Missing OPENAI_API_KEY. Add it in your .env file.');
   }
 
-  return new OpenAI({ apiKey });
+  return new OpenAI({ apiKey, timeout: UPSTREAM_TIMEOUT_MS, maxRetries: UPSTREAM_MAX_RETRIES });
+}
+
+/** A client for any server that speaks the OpenAI chat API, such as Ollama or LM Studio. */
+export function createOpenAICompatibleClient(): OpenAI {
+  const baseURL = process.env.LLM_BASE_URL?.trim();
+  if (!baseURL) {
+    throw new Error('Missing LLM_BASE_URL, e.g. http://localhost:11434/v1 for Ollama.');
+  }
+
+  // Local servers usually ignore the key, but the SDK refuses to run without one.
+  return new OpenAI({
+    baseURL,
+    apiKey: process.env.LLM_API_KEY?.trim() || 'unused',
+    timeout: UPSTREAM_TIMEOUT_MS,
+    maxRetries: UPSTREAM_MAX_RETRIES
+  });
+}
+
+/** Errors that mean the upstream is down or overloaded rather than that the request was wrong. */
+export function isUpstreamFailure(error: unknown): boolean {
+  // Covers APIConnectionTimeoutError as well.
+  if (error instanceof OpenAI.APIConnectionError) {
+    return true;
+  }
+  return (
+    error instanceof OpenAI.APIError &&
+    (error.status === 408 || error.status === 429 || (error.status ?? 0) >= 500)
+  );
 }
 
 export async function verifyOpenAIAuth(client: OpenAI): Promise<void> {
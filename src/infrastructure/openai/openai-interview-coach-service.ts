@@ -1,39 +1,61 @@
 import type OpenAI from 'openai';
+import { z } from 'zod';
+import type { InterviewerPersona } from '../../domain/entities/interview-template.js';
 import type {
+  AnswerFeedbackParams,
+  AnswerRatingParams,
+  CoachFeedback,
+  FollowUpCloseParams,
   InterviewCoachService,
   InterviewerReply,
+  InterviewerReplyParams,
+  TextDeltaHandler,
   TranscriptTurn
 } from '../../domain/services/interview-coach-service.js';
-import type { InterviewFeedback, ImprovedBestAnswer, CorrectionItem, TimingSummary } from '../../domain/entities/session.js';
+import {
+  CEFR_LEVELS,
+  CORRECTION_CATEGORIES,
+  PROFICIENCY_SKILLS,
+  RUBRIC_CRITERIA,
+  type AnswerFeedback,
+  type AnswerRating,
+  type FluencySummary,
+  type PronunciationSummary,
+  type TimingSummary
+} from '../../domain/entities/session.js';
+import type { CircuitBreaker } from './circuit-breaker.js';
 import { MODEL } from './config.js';
 
 export class OpenAIInterviewCoachService implements InterviewCoachService {
-  constructor(private readonly client: OpenAI) {}
+  constructor(
+    private readonly client: OpenAI,
+    private readonly breaker: CircuitBreaker
+  ) {}
 
-  async generateInterviewerReply(params: {
-    question: string;
-    answer: string;
-  }): Promise<InterviewerReply> {
+  async generateInterviewerReply(params: InterviewerReplyParams): Promise<InterviewerReply> {
     const prompt = [
-      'You are a friendly big-tech interviewer.',
+      `You are ${params.persona}.`,
       'Given the question and candidate answer, return strict JSON with keys:',
       '- replyText: short spoken response (1-2 sentences)',
       '- followUpQuestion: either one concise follow-up question OR null',
       'Rules:',
       '- Ask at most one follow-up question.',
-      '- Keep tone encouraging and professional.',
+      ...FOLLOW_UP_ROUND_RULES,
+      ...PERSONA_STYLE_RULES[params.interviewerPersona],
       '- JSON only, no markdown.'
     ].join('\n');
 
-    const completion = await this.client.chat.completions.create({
-      model: MODEL,
-      response_format: { type: 'json_object' },
-      temperature: 0.5,
-      messages: [
-        { role: 'system', content: prompt },
-        { role: 'user', content: JSON.stringify(params) }
-      ]
-    });
+    const completion = await this.breaker.run(() =>
+      this.client.chat.completions.create({
+        model: MODEL,
+        response_format: { type: 'json_object' },
+        temperature: 0.5,
+        messages: [
+          { role: 'system', content: prompt },
+          { role: 'user', content: JSON.stringify(exchangeOf(params)) }
+        ]
+      })
+    );
 
     const content = completion.choices[0]?.message?.content || '{}';
     const parsed = safeJson(content);
@@ -50,115 +72,417 @@ export class OpenAIInterviewCoachService implements InterviewCoachService {
     };
   }
 
-  async generateFollowUpClose(params: {
-    question: string;
-    answer: string;
-    followUpQuestion: string;
-    followUpAnswer: string;
-  }): Promise<string> {
-    const completion = await this.client.chat.completions.create({
-      model: MODEL,
-      temperature: 0.4,
-      messages: [
-        {
-          role: 'system',
-          content:
-            'You are a friendly interviewer. Write one short spoken acknowledgement (max 20 words). No follow-up question.'
-        },
-        { role: 'user', content: JSON.stringify(params) }
-      ]
+  async streamInterviewerReply(
+    params: InterviewerReplyParams,
+    onDelta: TextDeltaHandler
+  ): Promise<InterviewerReply> {
+    const prompt = [
+      `You are ${params.persona}.`,
+      'Given the question and candidate answer, reply as plain spoken text:',
+      '- First a short spoken response (1-2 sentences).',
+      `- Then a new line starting with "${FOLLOW_UP_MARKER}" followed by one concise follow-up question, or "${FOLLOW_UP_MARKER} NONE".`,
+      'Rules:',
+      '- Ask at most one follow-up question.',
+      ...FOLLOW_UP_ROUND_RULES,
+      ...PERSONA_STYLE_RULES[params.interviewerPersona],
+      '- No markdown.'
+    ].join('\n');
+
+    // A stream that breaks off midway counts as an upstream failure too.
+    const { replyText, followUpQuestion } = await this.breaker.run(async () => {
+      const stream = await this.client.chat.completions.create({
+        model: MODEL,
+        temperature: 0.5,
+        stream: true,
+        messages: [
+          { role: 'system', content: prompt },
+          { role: 'user', content: JSON.stringify(exchangeOf(params)) }
+        ]
+      });
+
+      const parser = new FollowUpMarkerParser(onDelta);
+      for await (const chunk of stream) {
+        parser.push(chunk.choices[0]?.delta?.content || '');
+      }
+      return parser.finish();
     });
 
+    return {
+      replyText: replyText || 'Thanks, that helps me understand your approach.',
+      followUpQuestion
+    };
+  }
+
+  async generateFollowUpClose(params: FollowUpCloseParams): Promise<string> {
+    const completion = await this.breaker.run(() =>
+      this.client.chat.completions.create({
+        model: MODEL,
+        temperature: 0.4,
+        messages: [
+          { role: 'system', content: followUpClosePrompt(params) },
+          { role: 'user', content: JSON.stringify(exchangeOf(params)) }
+        ]
+      })
+    );
+
     return completion.choices[0]?.message?.content?.trim() || 'Thanks for clarifying.';
   }
 
+  async streamFollowUpClose(params: FollowUpCloseParams, onDelta: TextDeltaHandler): Promise<string> {
+    const text = await this.breaker.run(async () => {
+      const stream = await this.client.chat.completions.create({
+        model: MODEL,
+        temperature: 0.4,
+        stream: true,
+        messages: [
+          { role: 'system', content: followUpClosePrompt(params) },
+          { role: 'user', content: JSON.stringify(exchangeOf(params)) }
+        ]
+      });
+
+      let streamed = '';
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content || '';
+        if (delta) {
+          streamed += delta;
+          onDelta(delta);
+        }
+      }
+      return streamed;
+    });
+
+    return text.trim() || 'Thanks for clarifying.';
+  }
+
+  async generateAnswerFeedback(params: AnswerFeedbackParams): Promise<AnswerFeedback> {
+    const prompt = [
+      'You are an English coach for technical interviews, giving quick feedback on one answer.',
+      'Return strict JSON with shape:',
+      '{',
+      '  "corrections": [ { "original": string, "corrected": string, "reason": string, "category": string } ],',
+      '  "improvedAnswer": string',
+      '}',
+      'Rules:',
+      '- Provide 0 to 3 corrections, only for real mistakes in the answer.',
+      `- Each correction category must be one of: ${CORRECTION_CATEGORIES.join(', ')}.`,
+      "- improvedAnswer rewrites the candidate's answer in natural interview English, keeping their content.",
+      '- JSON only.'
+    ].join('\n');
+
+    const completion = await this.breaker.run(() =>
+      this.client.chat.completions.create({
+        model: MODEL,
+        response_format: { type: 'json_object' },
+        temperature: 0.3,
+        messages: [
+          { role: 'system', content: prompt },
+          { role: 'user', content: JSON.stringify({ question: params.question, answer: params.answer }) }
+        ]
+      })
+    );
+
+    const feedback = answerFeedbackOutputSchema.parse(safeJson(completion.choices[0]?.message?.content || '{}'));
+    return {
+      corrections: feedback.corrections.map((item) => ({ ...item, questionNumber: params.questionNumber })),
+      improvedAnswer: feedback.improvedAnswer
+    };
+  }
+
+  async rateAnswer(params: AnswerRatingParams): Promise<AnswerRating | null> {
+    const prompt = [
+      'You are a senior interviewer rating one answer in a technical interview.',
+      'Return strict JSON with shape: { "score": number, "reason": string }',
+      'Rules:',
+      '- score is 1 (poor) to 5 (excellent) for how well the answer addresses the question at its difficulty.',
+      '- Judge the content and structure, not the English.',
+      '- reason is one sentence.',
+      '- JSON only.'
+    ].join('\n');
+
+    const completion = await this.breaker.run(() =>
+      this.client.chat.completions.create({
+        model: MODEL,
+        response_format: { type: 'json_object' },
+        temperature: 0.2,
+        messages: [
+          { role: 'system', content: prompt },
+          { role: 'user', content: JSON.stringify(params) }
+        ]
+      })
+    );
+
+    const rating = answerRatingOutputSchema.safeParse(safeJson(completion.choices[0]?.message?.content || '{}'));
+    return rating.success ? rating.data : null;
+  }
+
   async generateFeedback(params: {
     timingSummary: TimingSummary;
+    fluency: FluencySummary | null;
+    pronunciation: PronunciationSummary | null;
     transcript: TranscriptTurn[];
-  }): Promise<InterviewFeedback> {
+  }): Promise<CoachFeedback> {
     const prompt = [
       'You are an English coach for technical interviews.',
       'Return strict JSON with shape:',
       '{',
-      '  "timingSummary": { "avgResponseDelaySec": number, "longPausesCount": number, "totalTurns": number },',
       '  "corrections": [',
-      '    { "original": string, "corrected": string, "reason": string }',
+      '    { "original": string, "corrected": string, "reason": string, "category": string, "questionNumber": number }',
+      '  ],',
+      '  "vocabulary": [',
+      '    { "term": string, "meaning": string, "replaces": string | null, "example": string, "questionNumber": number }',
       '  ],',
-      '  "improvedBestAnswer": { "question": string, "answer": string },',
-      '  "interviewTips": [string]',
+      '  "improvedAnswers": [',
+      '    { "questionNumber": number, "kind": "main" | "follow_up", "followUpRound": number | null, "improved": string }',
+      '  ],',
+      '  "interviewTips": [string],',
+      '  "attemptComparisons": [ { "questionNumber": number, "improvement": string } ],',
+      '  "turnScores": [',
+      '    { "questionNumber": number, "scores": { "<criterion>": { "score": number, "justification": string } } }',
+      '  ],',
+      '  "proficiency": { "<skill>": { "level": string, "justification": string } }',
       '}',
       'Rules:',
       '- Provide 5 to 8 corrections.',
+      `- Each correction category must be one of: ${CORRECTION_CATEGORIES.join(', ')}.`,
+      '- questionNumber is the transcript questionNumber the original sentence came from.',
+      '- Provide 3 to 5 vocabulary items: words or phrases that would have made answers more precise or',
+      '  idiomatic. replaces is the plainer wording the candidate actually used, copied exactly, or null.',
+      "  example uses the term in a sentence about the candidate's own answer; meaning is a short definition.",
       '- Provide 2 to 3 interviewTips.',
-      '- improvedBestAnswer must be concise and interview-quality.',
+      '- If fluency is not null, make one tip about speaking rate, filler words or pauses, citing the numbers.',
+      '- If pronunciation is not null, make one tip naming the first few practiceWords to rehearse.',
+      '- If turns have turnCorrections, the candidate already saw them: corrections should be the most',
+      '  important recurring patterns across turns, not new nitpicks.',
+      '- Give one improvedAnswers entry per candidate answer: kind "main" with followUpRound null for the',
+      '  answer to the question, kind "follow_up" with the 1-based followUpRound for each answer in followUps.',
+      "- Each improved answer keeps the candidate's own content and examples, fixing the English and tightening",
+      '  the structure to interview quality. Do not invent experience.',
+      '- A turn with retries was answered again: its last retry is the final attempt. Score and improve the',
+      '  final attempt, and add one attemptComparisons entry saying concretely what got better or worse.',
+      '- Give one turnScores entry per transcript questionNumber.',
+      `- Score every criterion: ${RUBRIC_CRITERIA.join(', ')}.`,
+      '- structure means a clear situation, task, action and result (STAR) or equivalent.',
+      '- Scores are integers from 1 (poor) to 5 (excellent); each justification is one sentence about that answer.',
+      `- In proficiency, give the candidate's CEFR level for every skill: ${PROFICIENCY_SKILLS.join(', ')}.`,
+      `- Each level is one of ${CEFR_LEVELS.join(', ')}, judged over all answers as a CEFR examiner would.`,
+      '- grammar_range is the variety and control of structures; vocabulary_range is the breadth and precision',
+      '  of words; coherence is how ideas are organized and linked.',
+      '- Judge fluency from timingSummary (response delays, long pauses) and fluency (speaking rate, filler',
+      '  words, mid-answer pauses) when present, and from the flow of the transcript otherwise.',
+      '- Each proficiency justification is one sentence citing evidence from the interview.',
       '- JSON only.'
     ].join('\n');
 
-    const completion = await this.client.chat.completions.create({
-      model: MODEL,
-      response_format: { type: 'json_object' },
-      temperature: 0.4,
-      messages: [
-        { role: 'system', content: prompt },
-        { role: 'user', content: JSON.stringify(params) }
-      ]
-    });
+    const completion = await this.breaker.run(() =>
+      this.client.chat.completions.create({
+        model: MODEL,
+        response_format: { type: 'json_object' },
+        temperature: 0.4,
+        messages: [
+          { role: 'system', content: prompt },
+          { role: 'user', content: JSON.stringify(params) }
+        ]
+      })
+    );
 
     const content = completion.choices[0]?.message?.content || '{}';
-    const parsed = safeJson(content);
+    const feedback = feedbackOutputSchema.parse(safeJson(content));
+    const questionNumbers = new Set(params.transcript.map((turn) => turn.questionNumber));
 
     return {
-      timingSummary: params.timingSummary,
-      corrections: normalizeCorrections(parsed.corrections),
-      improvedBestAnswer: normalizeImprovedAnswer(parsed.improvedBestAnswer),
-      interviewTips: normalizeTips(parsed.interviewTips)
+      ...feedback,
+      turnScores: feedback.turnScores.filter((turn) => questionNumbers.has(turn.questionNumber)),
+      proficiency: PROFICIENCY_SKILLS.flatMap((skill) => {
+        const assessed = feedback.proficiency[skill];
+        return assessed ? [{ skill, ...assessed }] : [];
+      })
     };
   }
 }
 
-function normalizeCorrections(value: unknown): CorrectionItem[] {
-  if (!Array.isArray(value)) {
-    return [];
-  }
+const FOLLOW_UP_MARKER = 'FOLLOW_UP:';
 
-  return value
-    .filter((item) => item && typeof item === 'object')
-    .map((item) => {
-      const valueItem = item as Record<string, unknown>;
-      return {
-        original: String(valueItem.original || '').trim(),
-        corrected: String(valueItem.corrected || '').trim(),
-        reason: String(valueItem.reason || '').trim()
-      };
-    })
-    .filter((item) => item.original && item.corrected && item.reason)
-    .slice(0, 8);
+const FOLLOW_UP_ROUND_RULES = [
+  '- If followUps is not empty, react to the last follow-up answer and never repeat an earlier follow-up question.'
+];
+
+/** How each interviewer persona sounds; appended to the rules of every reply prompt. */
+const PERSONA_STYLE_RULES: Record<InterviewerPersona, string[]> = {
+  friendly: [
+    '- Keep tone warm, encouraging and professional.',
+    '- Say briefly what was good before probing further.'
+  ],
+  skeptical_bar_raiser: [
+    '- Be polite but skeptical: no praise, and challenge vague claims and unstated assumptions.',
+    '- Probe for evidence, tradeoffs, failure modes and what the candidate personally did.'
+  ],
+  hurried_hiring_manager: [
+    '- Sound brisk and short on time: one short sentence, no pleasantries.',
+    "- Only follow up when the answer missed the outcome or the candidate's own role, and ask for it in one line."
+  ]
+};
+
+/** What the model sees of the exchange; the persona goes in the system prompt. */
+function exchangeOf(params: InterviewerReplyParams | FollowUpCloseParams) {
+  return { question: params.question, answer: params.answer, followUps: params.followUps };
 }
 
-function normalizeImprovedAnswer(value: unknown): ImprovedBestAnswer {
-  if (!value || typeof value !== 'object') {
-    return { question: '', answer: '' };
+function followUpClosePrompt(params: FollowUpCloseParams): string {
+  return [
+    `You are ${params.persona}.`,
+    'Write one short spoken acknowledgement (max 20 words) of the last follow-up answer. No follow-up question.',
+    ...PERSONA_STYLE_RULES[params.interviewerPersona]
+  ].join('\n');
+}
+
+/**
+ * Forwards streamed reply text until the follow-up marker appears. The tail of
+ * the buffer is held back so a marker split across chunks is never emitted.
+ */
+class FollowUpMarkerParser {
+  private buffer = '';
+  private emitted = 0;
+
+  constructor(private readonly onDelta: TextDeltaHandler) {}
+
+  push(delta: string): void {
+    this.buffer += delta;
+    const markerIndex = this.buffer.indexOf(FOLLOW_UP_MARKER);
+    this.flush(markerIndex >= 0 ? markerIndex : this.buffer.length - FOLLOW_UP_MARKER.length + 1);
   }
 
-  const normalized = value as Record<string, unknown>;
+  finish(): InterviewerReply {
+    const markerIndex = this.buffer.indexOf(FOLLOW_UP_MARKER);
+    const replyEnd = markerIndex >= 0 ? markerIndex : this.buffer.length;
+    this.flush(replyEnd);
 
-  return {
-    question: String(normalized.question || '').trim(),
-    answer: String(normalized.answer || '').trim()
-  };
-}
+    const followUp = markerIndex >= 0 ? this.buffer.slice(markerIndex + FOLLOW_UP_MARKER.length).trim() : '';
+    return {
+      replyText: this.buffer.slice(0, replyEnd).trim(),
+      followUpQuestion: followUp && followUp.toUpperCase() !== 'NONE' ? followUp : null
+    };
+  }
 
-function normalizeTips(value: unknown): string[] {
-  if (!Array.isArray(value)) {
-    return [];
+  private flush(end: number): void {
+    if (end > this.emitted) {
+      this.onDelta(this.buffer.slice(this.emitted, end));
+      this.emitted = end;
+    }
   }
+}
 
-  return value
-    .map((tip) => String(tip || '').trim())
-    .filter(Boolean)
-    .slice(0, 3);
+/**
+ * Model output is untrusted: each field falls back to an empty value and list
+ * items that do not validate are dropped, so one malformed correction or score
+ * does not cost the rest of the feedback.
+ */
+function validItems<T extends z.ZodTypeAny>(schema: T, max: number) {
+  return z
+    .array(z.unknown())
+    .catch([])
+    .transform((items) =>
+      items
+        .flatMap((item) => {
+          const parsed = schema.safeParse(item);
+          return parsed.success ? [parsed.data as z.output<T>] : [];
+        })
+        .slice(0, max)
+    );
 }
 
+const correctionOutputSchema = z.object({
+  original: z.string().trim().min(1),
+  corrected: z.string().trim().min(1),
+  reason: z.string().trim().min(1),
+  category: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .pipe(z.enum(CORRECTION_CATEGORIES))
+    .catch('other'),
+  questionNumber: z.number().int().positive().nullable().catch(null)
+});
+
+const vocabularyOutputSchema = z.object({
+  term: z.string().trim().min(1),
+  meaning: z.string().trim().min(1),
+  replaces: z.string().trim().min(1).nullable().catch(null),
+  example: z.string().trim().min(1),
+  questionNumber: z.number().int().positive().nullable().catch(null)
+});
+
+const criterionOutputSchema = z.object({
+  score: z.number().min(1).max(5).transform(Math.round),
+  justification: z.string().trim().min(1)
+});
+
+const turnScoreOutputSchema = z
+  .object({
+    questionNumber: z.number().int().positive(),
+    scores: z.object({
+      structure: criterionOutputSchema,
+      technical_depth: criterionOutputSchema,
+      clarity: criterionOutputSchema,
+      grammar: criterionOutputSchema,
+      vocabulary: criterionOutputSchema
+    })
+  })
+  .transform((turn) => ({
+    questionNumber: turn.questionNumber,
+    criteria: RUBRIC_CRITERIA.map((criterion) => ({ criterion, ...turn.scores[criterion] }))
+  }));
+
+const skillLevelOutputSchema = z
+  .object({
+    level: z.string().trim().toUpperCase().pipe(z.enum(CEFR_LEVELS)),
+    justification: z.string().trim().min(1)
+  })
+  .optional()
+  .catch(undefined);
+
+/** Each skill is kept or dropped on its own; the caller decides whether enough remain. */
+const proficiencyOutputSchema = z
+  .object({
+    grammar_range: skillLevelOutputSchema,
+    vocabulary_range: skillLevelOutputSchema,
+    coherence: skillLevelOutputSchema,
+    fluency: skillLevelOutputSchema
+  })
+  .catch({});
+
+const answerRatingOutputSchema = z.object({
+  score: z.number().min(1).max(5).transform(Math.round),
+  reason: z.string().trim().min(1)
+});
+
+const answerFeedbackOutputSchema = z.object({
+  corrections: validItems(correctionOutputSchema, 3),
+  improvedAnswer: z.string().trim().catch('')
+});
+
+const feedbackOutputSchema = z.object({
+  corrections: validItems(correctionOutputSchema, 8),
+  vocabulary: validItems(vocabularyOutputSchema, 5),
+  improvedAnswers: validItems(
+    z.object({
+      questionNumber: z.number().int().positive(),
+      kind: z.enum(['main', 'follow_up']),
+      followUpRound: z.number().int().positive().nullable().catch(null),
+      improved: z.string().trim().min(1)
+    })
+      // A follow-up rewrite without a round is taken to be the first round's.
+      .transform((item) => ({ ...item, followUpRound: item.kind === 'main' ? null : (item.followUpRound ?? 1) })),
+    100
+  ),
+  interviewTips: validItems(z.string().trim().min(1), 3),
+  turnScores: validItems(turnScoreOutputSchema, 50),
+  proficiency: proficiencyOutputSchema,
+  attemptComparisons: validItems(
+    z.object({ questionNumber: z.number().int().positive(), improvement: z.string().trim().min(1) }),
+    50
+  )
+});
+
 function safeJson(text: string): Record<string, unknown> {
   try {
     return JSON.parse(text) as Record<string, unknown>;
@@ -0,0 +1,78 @@
+import { toFile } from 'openai/uploads';
+import type OpenAI from 'openai';
+import type { AssessedWord } from '../../domain/entities/session.js';
+import type { PronunciationAssessmentService } from '../../domain/services/pronunciation-assessment-service.js';
+import type { CircuitBreaker } from './circuit-breaker.js';
+import { PRONUNCIATION_MODEL } from './config.js';
+import { extensionFromMimeType } from './openai-speech-to-text-service.js';
+
+/** Words the transcriber was less sure of than this are reported. */
+const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+interface TokenLogprob {
+  token?: string;
+  logprob?: number;
+}
+
+/**
+ * Uses the transcription model's token log-probabilities as a proxy for
+ * pronunciation: a word the model struggled to recognize was usually unclear.
+ * Only the gpt-4o transcribe models return logprobs.
+ */
+export class OpenAIPronunciationAssessmentService implements PronunciationAssessmentService {
+  constructor(
+    private readonly client: OpenAI,
+    private readonly breaker: CircuitBreaker
+  ) {}
+
+  async assess(params: { audio: Buffer; mimeType: string }): Promise<AssessedWord[]> {
+    const file = await toFile(params.audio, `answer.${extensionFromMimeType(params.mimeType)}`, {
+      type: params.mimeType
+    });
+
+    const transcript = await this.breaker.run(() =>
+      this.client.audio.transcriptions.create({
+        model: PRONUNCIATION_MODEL,
+        file,
+        response_format: 'json',
+        include: ['logprobs']
+      })
+    );
+
+    const logprobs = (transcript as { logprobs?: TokenLogprob[] }).logprobs;
+    if (!Array.isArray(logprobs)) {
+      return [];
+    }
+
+    return toWords(logprobs).filter((word) => word.confidence < LOW_CONFIDENCE_THRESHOLD);
+  }
+}
+
+/**
+ * Joins sub-word tokens back into words; a token starting with whitespace
+ * begins a new word. A word is only as certain as its least certain token.
+ */
+function toWords(logprobs: TokenLogprob[]): AssessedWord[] {
+  const words: Array<{ text: string; minLogprob: number }> = [];
+  for (const item of logprobs) {
+    // Punctuation tokens say nothing about how a word sounded.
+    if (typeof item?.token !== 'string' || typeof item.logprob !== 'number' || !/[a-z]/i.test(item.token)) {
+      continue;
+    }
+
+    const current = words[words.length - 1];
+    if (!current || /^\s/.test(item.token)) {
+      words.push({ text: item.token, minLogprob: item.logprob });
+    } else {
+      current.text += item.token;
+      current.minLogprob = Math.min(current.minLogprob, item.logprob);
+    }
+  }
+
+  return words.flatMap((word) => {
+    const text = word.text.toLowerCase().replace(/[^a-z'-]/g, '');
+    return /[a-z]{2}/.test(text)
+      ? [{ word: text, confidence: Number(Math.exp(word.minLogprob).toFixed(2)) }]
+      : [];
+  });
+}
@@ -1,30 +1,69 @@
 import { toFile } from 'openai/uploads';
 import type OpenAI from 'openai';
-import type { SpeechToTextService } from '../../domain/services/speech-to-text-service.js';
+import type {
+  SpeechToTextService,
+  TranscribedWord,
+  Transcription
+} from '../../domain/services/speech-to-text-service.js';
+import type { CircuitBreaker } from './circuit-breaker.js';
 import { STT_MODEL } from './config.js';
 
 export class OpenAISpeechToTextService implements SpeechToTextService {
-  constructor(private readonly client: OpenAI) {}
+  constructor(
+    private readonly client: OpenAI,
+    private readonly breaker: CircuitBreaker
+  ) {}
 
-  async transcribe(params: { audio: Buffer; mimeType: string }): Promise<string> {
+  async transcribe(params: { audio: Buffer; mimeType: string }): Promise<Transcription> {
     const file = await toFile(params.audio, `answer.${extensionFromMimeType(params.mimeType)}`, {
       type: params.mimeType
     });
 
-    const transcript = await this.client.audio.transcriptions.create({
-      model: STT_MODEL,
-      file
-    });
+    // Only whisper models return word timestamps; the gpt-4o transcribe models accept json/text only.
+    const transcript = await this.breaker.run(async () =>
+      supportsWordTimestamps(STT_MODEL)
+        ? await this.client.audio.transcriptions.create({
+            model: STT_MODEL,
+            file,
+            response_format: 'verbose_json',
+            timestamp_granularities: ['word']
+          })
+        : await this.client.audio.transcriptions.create({
+            model: STT_MODEL,
+            file
+          })
+    );
 
     const text = extractTranscriptText(transcript);
     if (!text) {
       throw new Error('empty transcription from STT');
     }
 
-    return text;
+    return {
+      text,
+      words: extractWords(transcript),
+      durationSec: 'duration' in transcript && typeof transcript.duration === 'number' ? transcript.duration : null
+    };
   }
 }
 
+function supportsWordTimestamps(model: string): boolean {
+  return model.startsWith('whisper');
+}
+
+function extractWords(transcript: unknown): TranscribedWord[] {
+  const words = (transcript as { words?: Array<{ word?: unknown; start?: unknown; end?: unknown }> }).words;
+  if (!Array.isArray(words)) {
+    return [];
+  }
+
+  return words.flatMap((item) =>
+    typeof item?.word === 'string' && typeof item.start === 'number' && typeof item.end === 'number'
+      ? [{ word: item.word.trim(), startSec: item.start, endSec: item.end }]
+      : []
+  );
+}
+
 function extractTranscriptText(transcript: unknown): string {
   if (!transcript || typeof transcript !== 'object') {
     return '';
@@ -51,7 +90,7 @@ function extractTranscriptText(transcript: unknown): string {
   return '';
 }
 
-function extensionFromMimeType(mimeType: string): string {
+export function extensionFromMimeType(mimeType: string): string {
   switch (mimeType) {
     case 'audio/wav':
     case 'audio/x-wav':
@@ -60,6 +99,12 @@ function extensionFromMimeType(mimeType: string): string {
       return 'mp3';
     case 'audio/webm':
       return 'webm';
+    case 'audio/ogg':
+      return 'ogg';
+    case 'audio/mp4':
+      return 'm4a';
+    case 'audio/flac':
+      return 'flac';
     default:
       return 'wav';
   }
@@ -0,0 +1,104 @@
+import type OpenAI from 'openai';
+import type { InterviewCoachService } from '../../domain/services/interview-coach-service.js';
+import type { PronunciationAssessmentService } from '../../domain/services/pronunciation-assessment-service.js';
+import type { SpeechToTextService } from '../../domain/services/speech-to-text-service.js';
+import type { TextToSpeechService } from '../../domain/services/text-to-speech-service.js';
+import {
+  OfflinePronunciationAssessmentService,
+  OfflineSpeechToTextService,
+  OfflineTextToSpeechService
+} from '../offline/offline-speech-services.js';
+import { RuleBasedInterviewCoachService } from '../offline/rule-based-interview-coach-service.js';
+import { CircuitBreaker } from '../openai/circuit-breaker.js';
+import { UPSTREAM_BREAKER_COOLDOWN_MS, UPSTREAM_BREAKER_THRESHOLD } from '../openai/config.js';
+import {
+  createOpenAIClient,
+  createOpenAICompatibleClient,
+  isUpstreamFailure,
+  verifyOpenAIAuth
+} from '../openai/openai-client.js';
+import { OpenAIInterviewCoachService } from '../openai/openai-interview-coach-service.js';
+import { OpenAIPronunciationAssessmentService } from '../openai/openai-pronunciation-assessment-service.js';
+import { OpenAISpeechToTextService } from '../openai/openai-speech-to-text-service.js';
+import { OpenAITextToSpeechService } from '../openai/openai-text-to-speech-service.js';
+import { CachingTextToSpeechService } from './caching-text-to-speech-service.js';
+
+export const LLM_PROVIDERS = ['openai', 'openai-compatible', 'fake'] as const;
+
+export type LlmProvider = (typeof LLM_PROVIDERS)[number];
+
+export interface AiServices {
+  interviewCoachService: InterviewCoachService;
+  speechToTextService: SpeechToTextService;
+  textToSpeechService: TextToSpeechService;
+  pronunciationAssessmentService: PronunciationAssessmentService;
+}
+
+type SpeechServices = Omit<AiServices, 'interviewCoachService'>;
+
+const PROVIDERS: Record<LlmProvider, () => Promise<AiServices>> = {
+  async openai() {
+    const client = createOpenAIClient();
+    await verifyOpenAIAuth(client);
+    const breaker = createBreaker('OpenAI');
+    return {
+      interviewCoachService: new OpenAIInterviewCoachService(client, breaker),
+      ...openAISpeechServices(client, breaker)
+    };
+  },
+  async 'openai-compatible'() {
+    return {
+      interviewCoachService: new OpenAIInterviewCoachService(
+        createOpenAICompatibleClient(),
+        createBreaker('The LLM server')
+      ),
+      ...optionalSpeechServices()
+    };
+  },
+  async fake() {
+    return {
+      interviewCoachService: new RuleBasedInterviewCoachService(),
+      ...optionalSpeechServices()
+    };
+  }
+};
+
+/**
+ * Builds the AI services for `LLM_PROVIDER`. Only `openai` needs network
+ * access at boot; the other providers use OpenAI for speech when a key is set
+ * and otherwise run with text answers only.
+ */
+export async function createAiServices(provider: string): Promise<AiServices> {
+  if (!(LLM_PROVIDERS as readonly string[]).includes(provider)) {
+    throw new Error(`Unknown LLM_PROVIDER "${provider}". Use one of: ${LLM_PROVIDERS.join(', ')}.`);
+  }
+  return PROVIDERS[provider as LlmProvider]();
+}
+
+function openAISpeechServices(client: OpenAI, breaker: CircuitBreaker): SpeechServices {
+  return {
+    speechToTextService: new OpenAISpeechToTextService(client, breaker),
+    textToSpeechService: new CachingTextToSpeechService(new OpenAITextToSpeechService(client, breaker)),
+    pronunciationAssessmentService: new OpenAIPronunciationAssessmentService(client, breaker)
+  };
+}
+
+function optionalSpeechServices(): SpeechServices {
+  if (process.env.OPENAI_API_KEY?.trim()) {
+    return openAISpeechServices(createOpenAIClient(), createBreaker('OpenAI'));
+  }
+  return {
+    speechToTextService: new OfflineSpeechToTextService(),
+    textToSpeechService: new OfflineTextToSpeechService(),
+    pronunciationAssessmentService: new OfflinePronunciationAssessmentService()
+  };
+}
+
+/** One breaker per upstream, shared by every adapter that calls it. */
+function createBreaker(upstreamName: string): CircuitBreaker {
+  return new CircuitBreaker(upstreamName, {
+    failureThreshold: UPSTREAM_BREAKER_THRESHOLD,
+    cooldownMs: UPSTREAM_BREAKER_COOLDOWN_MS,
+    isFailure: isUpstreamFailure
+  });
+}
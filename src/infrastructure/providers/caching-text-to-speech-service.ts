@@ -0,0 +1,40 @@
+import type { TextToSpeechService } from '../../domain/services/text-to-speech-service.js';
+
+/** Clips kept in memory; reference words and improved answers repeat across result views. */
+const DEFAULT_MAX_ENTRIES = 200;
+
+/**
+ * Remembers recent syntheses so fetching the same text again costs no second
+ * TTS call. Concurrent requests for one text share a call; failures are not kept.
+ */
+export class CachingTextToSpeechService implements TextToSpeechService {
+  private readonly cache = new Map<string, Promise<Buffer>>();
+
+  constructor(
+    private readonly inner: TextToSpeechService,
+    private readonly maxEntries = DEFAULT_MAX_ENTRIES
+  ) {}
+
+  async synthesize(params: { text: string }): Promise<Buffer> {
+    const cached = this.cache.get(params.text);
+    if (cached) {
+      // Re-inserting keeps the map in least-recently-used order.
+      this.cache.delete(params.text);
+      this.cache.set(params.text, cached);
+      return cached;
+    }
+
+    const audio = this.inner.synthesize(params);
+    this.cache.set(params.text, audio);
+    audio.catch(() => {
+      if (this.cache.get(params.text) === audio) {
+        this.cache.delete(params.text);
+      }
+    });
+
+    while (this.cache.size > this.maxEntries) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    return audio;
+  }
+}
@@ -0,0 +1,66 @@
+import type { JobQueue } from '../../domain/services/job-queue.js';
+
+/**
+ * Runs jobs in this process. Queued jobs are lost on restart, so callers keep
+ * enough state to re-enqueue them; a Redis-backed queue can replace this one
+ * to survive restarts and spread work across processes.
+ */
+export class InMemoryJobQueue<T> implements JobQueue<T> {
+  private readonly pending: T[] = [];
+  private readonly delayed = new Set<NodeJS.Timeout>();
+  private readonly running = new Set<Promise<void>>();
+  private handler: ((job: T) => Promise<void>) | null = null;
+  private closed = false;
+
+  constructor(private readonly options: { concurrency: number }) {}
+
+  async enqueue(job: T, options: { delayMs?: number } = {}): Promise<void> {
+    if (this.closed) {
+      throw new Error('Job queue is closed.');
+    }
+
+    if (options.delayMs && options.delayMs > 0) {
+      const timer = setTimeout(() => {
+        this.delayed.delete(timer);
+        this.pending.push(job);
+        this.drain();
+      }, options.delayMs);
+      // Pending retries alone should not keep the process alive.
+      timer.unref();
+      this.delayed.add(timer);
+      return;
+    }
+
+    this.pending.push(job);
+    this.drain();
+  }
+
+  process(handler: (job: T) => Promise<void>): void {
+    this.handler = handler;
+    this.drain();
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    for (const timer of this.delayed) {
+      clearTimeout(timer);
+    }
+    this.delayed.clear();
+    await Promise.all(this.running);
+  }
+
+  private drain(): void {
+    const handler = this.handler;
+    while (handler && !this.closed && this.running.size < this.options.concurrency && this.pending.length) {
+      const job = this.pending.shift() as T;
+      // Handlers report their own failures; a rejection only frees the slot.
+      const run: Promise<void> = handler(job)
+        .catch(() => undefined)
+        .finally(() => {
+          this.running.delete(run);
+          this.drain();
+        });
+      this.running.add(run);
+    }
+  }
+}
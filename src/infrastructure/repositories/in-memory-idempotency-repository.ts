@@ -0,0 +1,32 @@
+import type {
+  IdempotencyRecord,
+  IdempotencyRepository
+} from '../../domain/repositories/idempotency-repository.js';
+
+export class InMemoryIdempotencyRepository implements IdempotencyRepository {
+  private readonly records = new Map<string, IdempotencyRecord>();
+
+  async find<T>(sessionId: string, key: string): Promise<IdempotencyRecord<T> | null> {
+    const record = this.records.get(recordKey(sessionId, key));
+    return record ? (structuredClone(record) as IdempotencyRecord<T>) : null;
+  }
+
+  async save<T>(record: IdempotencyRecord<T>): Promise<void> {
+    this.records.set(recordKey(record.sessionId, record.key), structuredClone(record));
+  }
+
+  async sweep(createdBefore: string): Promise<number> {
+    let removed = 0;
+    for (const [key, record] of this.records) {
+      if (record.createdAt < createdBefore) {
+        this.records.delete(key);
+        removed += 1;
+      }
+    }
+    return removed;
+  }
+}
+
+function recordKey(sessionId: string, key: string): string {
+  return `${sessionId}:${key}`;
+}
@@ -0,0 +1,54 @@
+import { NotFoundError } from '../../application/errors/not-found-error.js';
+import type { NotebookItem, NotebookItemKind } from '../../domain/entities/notebook.js';
+import type {
+  NotebookPage,
+  NotebookQuery,
+  NotebookRepository
+} from '../../domain/repositories/notebook-repository.js';
+
+export class InMemoryNotebookRepository implements NotebookRepository {
+  private readonly items = new Map<string, NotebookItem>();
+
+  async create(item: NotebookItem): Promise<void> {
+    this.items.set(item.id, clone(item));
+  }
+
+  async findById(itemId: string): Promise<NotebookItem | null> {
+    const item = this.items.get(itemId);
+    return item ? clone(item) : null;
+  }
+
+  async findByKey(userId: string, kind: NotebookItemKind, key: string): Promise<NotebookItem | null> {
+    const item = [...this.items.values()].find(
+      (candidate) => candidate.userId === userId && candidate.kind === kind && candidate.key === key
+    );
+    return item ? clone(item) : null;
+  }
+
+  async list(query: NotebookQuery): Promise<NotebookPage> {
+    const dueAt = query.dueAt;
+    const matching = [...this.items.values()]
+      .filter((item) => item.userId === query.userId)
+      .filter((item) => !query.kind || item.kind === query.kind)
+      .filter((item) => !dueAt || item.review.dueAt <= dueAt)
+      .sort((a, b) =>
+        dueAt ? a.review.dueAt.localeCompare(b.review.dueAt) : b.updatedAt.localeCompare(a.updatedAt)
+      );
+
+    return {
+      items: matching.slice(query.offset, query.offset + query.limit).map(clone),
+      total: matching.length
+    };
+  }
+
+  async save(item: NotebookItem): Promise<void> {
+    if (!this.items.has(item.id)) {
+      throw new NotFoundError('Notebook item not found.');
+    }
+    this.items.set(item.id, clone(item));
+  }
+}
+
+function clone<T>(value: T): T {
+  return structuredClone(value);
+}
@@ -0,0 +1,44 @@
+import { NotFoundError } from '../../application/errors/not-found-error.js';
+import type { Question } from '../../domain/entities/question.js';
+import type { QuestionFilter, QuestionRepository } from '../../domain/repositories/question-repository.js';
+
+export class InMemoryQuestionRepository implements QuestionRepository {
+  private readonly questions = new Map<string, Question>();
+
+  constructor(seed: readonly Question[] = []) {
+    for (const question of seed) {
+      this.questions.set(question.id, clone(question));
+    }
+  }
+
+  async create(question: Question): Promise<void> {
+    this.questions.set(question.id, clone(question));
+  }
+
+  async findById(questionId: string): Promise<Question | null> {
+    const question = this.questions.get(questionId);
+    return question ? clone(question) : null;
+  }
+
+  async list(filter: QuestionFilter = {}): Promise<Question[]> {
+    return [...this.questions.values()]
+      .filter((question) => filter.includeRetired || !question.retired)
+      .filter((question) => !filter.categories?.length || filter.categories.includes(question.category))
+      .filter(
+        (question) => !filter.difficulties?.length || filter.difficulties.includes(question.difficulty)
+      )
+      .filter((question) => !filter.tags?.length || filter.tags.some((tag) => question.tags.includes(tag)))
+      .map(clone);
+  }
+
+  async save(question: Question): Promise<void> {
+    if (!this.questions.has(question.id)) {
+      throw new NotFoundError('Question not found.');
+    }
+    this.questions.set(question.id, clone(question));
+  }
+}
+
+function clone<T>(value: T): T {
+  return structuredClone(value);
+}
@@ -1,9 +1,31 @@
-import type { InterviewSession } from '../../domain/entities/session.js';
-import type { SessionRepository } from '../../domain/repositories/session-repository.js';
+import { ConflictError } from '../../application/errors/conflict-error.js';
+import { NotFoundError } from '../../application/errors/not-found-error.js';
+import type { InterviewSession, SessionStatus } from '../../domain/entities/session.js';
+import type {
+  SessionListQuery,
+  SessionPage,
+  SessionRepository
+} from '../../domain/repositories/session-repository.js';
 
+export interface InMemorySessionRepositoryOptions {
+  /** How long a completed session stays after its last change before the sweep drops it. */
+  completedRetentionMs: number;
+}
+
+const DEFAULT_OPTIONS: InMemorySessionRepositoryOptions = { completedRetentionMs: 24 * 3_600_000 };
+
+/** Statuses whose sessions the sweep drops once idle: nothing more can happen to them. */
+const DISCARDED_STATUSES: SessionStatus[] = ['expired', 'abandoned'];
+
+/**
+ * Process-local store for development. It holds every session in memory, so
+ * the sweep evicts finished sessions to keep it bounded; their history is lost.
+ */
 export class InMemorySessionRepository implements SessionRepository {
   private readonly sessions = new Map<string, InterviewSession>();
 
+  constructor(private readonly options: InMemorySessionRepositoryOptions = DEFAULT_OPTIONS) {}
+
   async create(session: InterviewSession): Promise<void> {
     this.sessions.set(session.id, clone(session));
   }
@@ -13,9 +35,67 @@ export class InMemorySessionRepository implements SessionRepository {
     return session ? clone(session) : null;
   }
 
+  async listByUser(query: SessionListQuery): Promise<SessionPage> {
+    const matching = [...this.sessions.values()]
+      .filter((session) => session.userId === query.userId)
+      .filter((session) => !query.status || session.status === query.status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    return {
+      items: matching.slice(query.offset, query.offset + query.limit).map(clone),
+      total: matching.length
+    };
+  }
+
+  async findIdsByStatus(status: SessionStatus): Promise<string[]> {
+    return [...this.sessions.values()].filter((session) => session.status === status).map((session) => session.id);
+  }
+
   async save(session: InterviewSession): Promise<void> {
+    const stored = this.sessions.get(session.id);
+    if (!stored) {
+      throw new NotFoundError('Session not found.');
+    }
+
+    if (stored.version !== session.version) {
+      throw new ConflictError('Session was modified by another request.');
+    }
+
+    session.version += 1;
+    session.updatedAt = new Date().toISOString();
     this.sessions.set(session.id, clone(session));
   }
+
+  async sweep(idleBefore: string): Promise<{ expired: number; restored: number; removed: number }> {
+    let expired = 0;
+    let restored = 0;
+    let removed = 0;
+    const completedBefore = new Date(Date.now() - this.options.completedRetentionMs).toISOString();
+    for (const session of this.sessions.values()) {
+      const evict =
+        (DISCARDED_STATUSES.includes(session.status) && session.updatedAt < idleBefore) ||
+        (session.status === 'completed' && session.updatedAt < completedBefore);
+      if (evict) {
+        this.sessions.delete(session.id);
+        removed += 1;
+        continue;
+      }
+      if (session.status !== 'in_progress' || session.updatedAt >= idleBefore) {
+        continue;
+      }
+      if (session.result) {
+        session.status = 'completed';
+        session.retryQuestionNumber = null;
+        restored += 1;
+      } else {
+        session.status = 'expired';
+        expired += 1;
+      }
+      session.promptServedAt = null;
+      session.version += 1;
+    }
+    return { expired, restored, removed };
+  }
 }
 
 function clone<T>(value: T): T {
@@ -0,0 +1,25 @@
+import type { InterviewTemplate } from '../../domain/entities/interview-template.js';
+import type { TemplateRepository } from '../../domain/repositories/template-repository.js';
+
+export class InMemoryTemplateRepository implements TemplateRepository {
+  private readonly templates = new Map<string, InterviewTemplate>();
+
+  constructor(seed: readonly InterviewTemplate[] = []) {
+    for (const template of seed) {
+      this.templates.set(template.id, clone(template));
+    }
+  }
+
+  async findById(templateId: string): Promise<InterviewTemplate | null> {
+    const template = this.templates.get(templateId);
+    return template ? clone(template) : null;
+  }
+
+  async list(): Promise<InterviewTemplate[]> {
+    return [...this.templates.values()].map(clone);
+  }
+}
+
+function clone<T>(value: T): T {
+  return structuredClone(value);
+}
@@ -0,0 +1,24 @@
+import type { User } from '../../domain/entities/user.js';
+import type { UserRepository } from '../../domain/repositories/user-repository.js';
+
+export class InMemoryUserRepository implements UserRepository {
+  private readonly users = new Map<string, User>();
+
+  async create(user: User): Promise<void> {
+    this.users.set(user.id, clone(user));
+  }
+
+  async findById(userId: string): Promise<User | null> {
+    const user = this.users.get(userId);
+    return user ? clone(user) : null;
+  }
+
+  async findByApiKeyHash(apiKeyHash: string): Promise<User | null> {
+    const user = [...this.users.values()].find((item) => item.apiKeyHash === apiKeyHash);
+    return user ? clone(user) : null;
+  }
+}
+
+function clone<T>(value: T): T {
+  return structuredClone(value);
+}
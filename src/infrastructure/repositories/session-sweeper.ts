@@ -0,0 +1,40 @@
+import type { IdempotencyRepository } from '../../domain/repositories/idempotency-repository.js';
+import type { SessionRepository } from '../../domain/repositories/session-repository.js';
+
+export interface SessionSweeperOptions {
+  /** Idle time after which an in-progress session expires, and the age at which idempotency records go. */
+  ttlMs: number;
+  intervalMs: number;
+  onSweep?(result: { expired: number; restored: number; removed: number; idempotencyRecordsRemoved: number }): void;
+  onError?(error: unknown): void;
+}
+
+/**
+ * Periodically expires idle sessions and drops idempotency records too old to
+ * be replayed by a client retry; returns a function that stops the timer.
+ */
+export function startSessionSweeper(
+  sessionRepository: SessionRepository,
+  idempotencyRepository: IdempotencyRepository,
+  options: SessionSweeperOptions
+): () => void {
+  let running = false;
+
+  const timer = setInterval(() => {
+    if (running) {
+      return;
+    }
+    running = true;
+    const cutoff = new Date(Date.now() - options.ttlMs).toISOString();
+    Promise.all([sessionRepository.sweep(cutoff), idempotencyRepository.sweep(cutoff)])
+      .then(([sessions, idempotencyRecordsRemoved]) => options.onSweep?.({ ...sessions, idempotencyRecordsRemoved }))
+      .catch((error: unknown) => options.onError?.(error))
+      .finally(() => {
+        running = false;
+      });
+  }, options.intervalMs);
+  // The sweeper alone should not keep the process alive.
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
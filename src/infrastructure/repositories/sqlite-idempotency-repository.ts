@@ -0,0 +1,54 @@
+import type {
+  IdempotencyRecord,
+  IdempotencyRepository
+} from '../../domain/repositories/idempotency-repository.js';
+import type { SqliteDatabase } from '../sqlite/database.js';
+
+interface IdempotencyRow {
+  session_id: string;
+  key: string;
+  request_fingerprint: string;
+  response: string;
+  created_at: string;
+}
+
+export class SqliteIdempotencyRepository implements IdempotencyRepository {
+  constructor(private readonly db: SqliteDatabase) {}
+
+  async find<T>(sessionId: string, key: string): Promise<IdempotencyRecord<T> | null> {
+    const row = this.db
+      .prepare('SELECT * FROM idempotency_keys WHERE session_id = ? AND key = ?')
+      .get(sessionId, key) as IdempotencyRow | undefined;
+    if (!row) {
+      return null;
+    }
+
+    return {
+      sessionId: row.session_id,
+      key: row.key,
+      requestFingerprint: row.request_fingerprint,
+      response: JSON.parse(row.response) as T,
+      createdAt: row.created_at
+    };
+  }
+
+  async save<T>(record: IdempotencyRecord<T>): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO idempotency_keys (
+          session_id, key, request_fingerprint, response, created_at
+        ) VALUES (?, ?, ?, ?, ?)`
+      )
+      .run(
+        record.sessionId,
+        record.key,
+        record.requestFingerprint,
+        JSON.stringify(record.response),
+        record.createdAt
+      );
+  }
+
+  async sweep(createdBefore: string): Promise<number> {
+    return this.db.prepare('DELETE FROM idempotency_keys WHERE created_at < ?').run(createdBefore).changes;
+  }
+}
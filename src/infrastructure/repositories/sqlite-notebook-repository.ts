@@ -0,0 +1,157 @@
+import { NotFoundError } from '../../application/errors/not-found-error.js';
+import type { NotebookItem, NotebookItemKind } from '../../domain/entities/notebook.js';
+import type {
+  NotebookPage,
+  NotebookQuery,
+  NotebookRepository
+} from '../../domain/repositories/notebook-repository.js';
+import type { SqliteDatabase } from '../sqlite/database.js';
+
+interface NotebookItemRow {
+  id: string;
+  user_id: string;
+  kind: NotebookItemKind;
+  key: string;
+  category: NotebookItem['category'];
+  original: string | null;
+  improved: string;
+  explanation: string;
+  occurrences: number;
+  examples: string;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  due_at: string;
+  last_reviewed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export class SqliteNotebookRepository implements NotebookRepository {
+  constructor(private readonly db: SqliteDatabase) {}
+
+  async create(item: NotebookItem): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO notebook_items (
+          id, user_id, kind, key, category, original, improved, explanation, occurrences, examples,
+          ease_factor, interval_days, repetitions, due_at, last_reviewed_at, created_at, updated_at
+        ) VALUES (
+          @id, @user_id, @kind, @key, @category, @original, @improved, @explanation, @occurrences, @examples,
+          @ease_factor, @interval_days, @repetitions, @due_at, @last_reviewed_at, @created_at, @updated_at
+        )`
+      )
+      .run(toRow(item));
+  }
+
+  async findById(itemId: string): Promise<NotebookItem | null> {
+    const row = this.db.prepare('SELECT * FROM notebook_items WHERE id = ?').get(itemId) as
+      | NotebookItemRow
+      | undefined;
+    return row ? fromRow(row) : null;
+  }
+
+  async findByKey(userId: string, kind: NotebookItemKind, key: string): Promise<NotebookItem | null> {
+    const row = this.db
+      .prepare('SELECT * FROM notebook_items WHERE user_id = ? AND kind = ? AND key = ?')
+      .get(userId, kind, key) as NotebookItemRow | undefined;
+    return row ? fromRow(row) : null;
+  }
+
+  async list(query: NotebookQuery): Promise<NotebookPage> {
+    const clauses = ['user_id = ?'];
+    const params: string[] = [query.userId];
+    if (query.kind) {
+      clauses.push('kind = ?');
+      params.push(query.kind);
+    }
+    if (query.dueAt) {
+      clauses.push('due_at <= ?');
+      params.push(query.dueAt);
+    }
+
+    const where = `WHERE ${clauses.join(' AND ')}`;
+    const { total } = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM notebook_items ${where}`)
+      .get(...params) as { total: number };
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM notebook_items ${where}
+        ORDER BY ${query.dueAt ? 'due_at ASC' : 'updated_at DESC'} LIMIT ? OFFSET ?`
+      )
+      .all(...params, query.limit, query.offset) as NotebookItemRow[];
+
+    return { items: rows.map(fromRow), total };
+  }
+
+  async save(item: NotebookItem): Promise<void> {
+    const update = this.db
+      .prepare(
+        `UPDATE notebook_items SET
+          category = @category,
+          original = @original,
+          improved = @improved,
+          explanation = @explanation,
+          occurrences = @occurrences,
+          examples = @examples,
+          ease_factor = @ease_factor,
+          interval_days = @interval_days,
+          repetitions = @repetitions,
+          due_at = @due_at,
+          last_reviewed_at = @last_reviewed_at,
+          updated_at = @updated_at
+        WHERE id = @id`
+      )
+      .run(toRow(item));
+
+    if (update.changes === 0) {
+      throw new NotFoundError('Notebook item not found.');
+    }
+  }
+}
+
+function toRow(item: NotebookItem): NotebookItemRow {
+  return {
+    id: item.id,
+    user_id: item.userId,
+    kind: item.kind,
+    key: item.key,
+    category: item.category,
+    original: item.original,
+    improved: item.improved,
+    explanation: item.explanation,
+    occurrences: item.occurrences,
+    examples: JSON.stringify(item.examples),
+    ease_factor: item.review.easeFactor,
+    interval_days: item.review.intervalDays,
+    repetitions: item.review.repetitions,
+    due_at: item.review.dueAt,
+    last_reviewed_at: item.review.lastReviewedAt,
+    created_at: item.createdAt,
+    updated_at: item.updatedAt
+  };
+}
+
+function fromRow(row: NotebookItemRow): NotebookItem {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    kind: row.kind,
+    key: row.key,
+    category: row.category,
+    original: row.original,
+    improved: row.improved,
+    explanation: row.explanation,
+    occurrences: row.occurrences,
+    examples: JSON.parse(row.examples) as NotebookItem['examples'],
+    review: {
+      easeFactor: row.ease_factor,
+      intervalDays: row.interval_days,
+      repetitions: row.repetitions,
+      dueAt: row.due_at,
+      lastReviewedAt: row.last_reviewed_at
+    },
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
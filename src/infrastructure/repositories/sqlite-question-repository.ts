@@ -0,0 +1,125 @@
+import { NotFoundError } from '../../application/errors/not-found-error.js';
+import type { Question } from '../../domain/entities/question.js';
+import type { QuestionFilter, QuestionRepository } from '../../domain/repositories/question-repository.js';
+import type { SqliteDatabase } from '../sqlite/database.js';
+
+interface QuestionRow {
+  id: string;
+  text: string;
+  category: Question['category'];
+  difficulty: Question['difficulty'];
+  tags: string;
+  retired: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export class SqliteQuestionRepository implements QuestionRepository {
+  constructor(
+    private readonly db: SqliteDatabase,
+    seed: readonly Question[] = []
+  ) {
+    const insert = this.db.prepare(
+      `INSERT OR IGNORE INTO questions (
+        id, text, category, difficulty, tags, retired, created_at, updated_at
+      ) VALUES (@id, @text, @category, @difficulty, @tags, @retired, @created_at, @updated_at)`
+    );
+    this.db.transaction(() => {
+      for (const question of seed) {
+        insert.run(toRow(question));
+      }
+    })();
+  }
+
+  async create(question: Question): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO questions (
+          id, text, category, difficulty, tags, retired, created_at, updated_at
+        ) VALUES (@id, @text, @category, @difficulty, @tags, @retired, @created_at, @updated_at)`
+      )
+      .run(toRow(question));
+  }
+
+  async findById(questionId: string): Promise<Question | null> {
+    const row = this.db.prepare('SELECT * FROM questions WHERE id = ?').get(questionId) as
+      | QuestionRow
+      | undefined;
+    return row ? fromRow(row) : null;
+  }
+
+  async list(filter: QuestionFilter = {}): Promise<Question[]> {
+    const clauses: string[] = [];
+    const params: string[] = [];
+
+    if (!filter.includeRetired) {
+      clauses.push('retired = 0');
+    }
+    if (filter.categories?.length) {
+      clauses.push(`category IN (${filter.categories.map(() => '?').join(', ')})`);
+      params.push(...filter.categories);
+    }
+    if (filter.difficulties?.length) {
+      clauses.push(`difficulty IN (${filter.difficulties.map(() => '?').join(', ')})`);
+      params.push(...filter.difficulties);
+    }
+    if (filter.tags?.length) {
+      clauses.push(
+        `EXISTS (SELECT 1 FROM json_each(questions.tags) WHERE value IN (${filter.tags.map(() => '?').join(', ')}))`
+      );
+      params.push(...filter.tags);
+    }
+
+    const where = clauses.length ? `WHERE ${clauses.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT * FROM questions ${where} ORDER BY created_at, id`)
+      .all(...params) as QuestionRow[];
+
+    return rows.map(fromRow);
+  }
+
+  async save(question: Question): Promise<void> {
+    const update = this.db
+      .prepare(
+        `UPDATE questions SET
+          text = @text,
+          category = @category,
+          difficulty = @difficulty,
+          tags = @tags,
+          retired = @retired,
+          updated_at = @updated_at
+        WHERE id = @id`
+      )
+      .run(toRow(question));
+
+    if (update.changes === 0) {
+      throw new NotFoundError('Question not found.');
+    }
+  }
+}
+
+function toRow(question: Question): QuestionRow {
+  return {
+    id: question.id,
+    text: question.text,
+    category: question.category,
+    difficulty: question.difficulty,
+    tags: JSON.stringify(question.tags),
+    retired: question.retired ? 1 : 0,
+    created_at: question.createdAt,
+    updated_at: question.updatedAt
+  };
+}
+
+function fromRow(row: QuestionRow): Question {
+  return {
+    id: row.id,
+    text: row.text,
+    category: row.category,
+    difficulty: row.difficulty,
+    tags: JSON.parse(row.tags) as string[],
+    retired: row.retired === 1,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
@@ -0,0 +1,286 @@
+import { ConflictError } from '../../application/errors/conflict-error.js';
+import { NotFoundError } from '../../application/errors/not-found-error.js';
+import type { InterviewSession, SessionStatus, SessionTurn } from '../../domain/entities/session.js';
+import type {
+  SessionListQuery,
+  SessionPage,
+  SessionRepository
+} from '../../domain/repositories/session-repository.js';
+import type { SqliteDatabase } from '../sqlite/database.js';
+
+interface SessionRow {
+  id: string;
+  version: number;
+  user_id: string;
+  created_at: string;
+  updated_at: string;
+  status: InterviewSession['status'];
+  template_id: string | null;
+  coach_persona: string;
+  interviewer_persona: InterviewSession['interviewerPersona'];
+  time_limits: string | null;
+  max_follow_ups: number;
+  coach_mode: number;
+  adaptive: number;
+  questions: string;
+  question_index: number;
+  skipped_question_ids: string;
+  awaiting_follow_up: number;
+  pending_follow_up_question: string | null;
+  retry_question_number: number | null;
+  prompt_served_at: string | null;
+  result: string | null;
+  feedback_generation: string | null;
+}
+
+interface TurnRow {
+  turn_index: number;
+  question_id: string;
+  question: string;
+  answer: string;
+  main_response_delay_sec: number;
+  main_leading_silence_sec: number | null;
+  main_fluency: string | null;
+  main_pronunciation: string | null;
+  main_feedback: string | null;
+  follow_ups: string;
+  retries: string;
+  answer_rating: string | null;
+  next_question_selection: string | null;
+}
+
+export class SqliteSessionRepository implements SessionRepository {
+  constructor(private readonly db: SqliteDatabase) {}
+
+  async create(session: InterviewSession): Promise<void> {
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          `INSERT INTO sessions (
+            id, version, user_id, created_at, updated_at, status, template_id, coach_persona,
+            interviewer_persona, time_limits, max_follow_ups, coach_mode, adaptive, questions, question_index, skipped_question_ids,
+            awaiting_follow_up, pending_follow_up_question, retry_question_number, prompt_served_at, result,
+            feedback_generation
+          ) VALUES (
+            @id, @version, @user_id, @created_at, @updated_at, @status, @template_id, @coach_persona,
+            @interviewer_persona, @time_limits, @max_follow_ups, @coach_mode, @adaptive, @questions, @question_index, @skipped_question_ids,
+            @awaiting_follow_up, @pending_follow_up_question, @retry_question_number, @prompt_served_at, @result,
+            @feedback_generation
+          )`
+        )
+        .run(toSessionRow(session));
+      this.writeTurns(session);
+    })();
+  }
+
+  async findById(sessionId: string): Promise<InterviewSession | null> {
+    const row = this.db.prepare('SELECT * FROM sessions WHERE id = ?').get(sessionId) as
+      | SessionRow
+      | undefined;
+    if (!row) {
+      return null;
+    }
+
+    return fromRows(row, this.loadTurns(sessionId));
+  }
+
+  async listByUser(query: SessionListQuery): Promise<SessionPage> {
+    const where = query.status ? 'WHERE user_id = ? AND status = ?' : 'WHERE user_id = ?';
+    const params = query.status ? [query.userId, query.status] : [query.userId];
+
+    const { total } = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM sessions ${where}`)
+      .get(...params) as { total: number };
+    const rows = this.db
+      .prepare(`SELECT * FROM sessions ${where} ORDER BY created_at DESC LIMIT ? OFFSET ?`)
+      .all(...params, query.limit, query.offset) as SessionRow[];
+
+    return {
+      items: rows.map((row) => fromRows(row, this.loadTurns(row.id))),
+      total
+    };
+  }
+
+  async save(session: InterviewSession): Promise<void> {
+    const updatedAt = new Date().toISOString();
+    this.db.transaction(() => {
+      const update = this.db
+        .prepare(
+          `UPDATE sessions SET
+            version = @version + 1,
+            updated_at = @next_updated_at,
+            status = @status,
+            max_follow_ups = @max_follow_ups,
+            questions = @questions,
+            question_index = @question_index,
+            skipped_question_ids = @skipped_question_ids,
+            awaiting_follow_up = @awaiting_follow_up,
+            pending_follow_up_question = @pending_follow_up_question,
+            retry_question_number = @retry_question_number,
+            prompt_served_at = @prompt_served_at,
+            result = @result,
+            feedback_generation = @feedback_generation
+          WHERE id = @id AND version = @version`
+        )
+        .run({ ...toSessionRow(session), next_updated_at: updatedAt });
+
+      if (update.changes === 0) {
+        const exists = this.db.prepare('SELECT 1 FROM sessions WHERE id = ?').get(session.id);
+        if (!exists) {
+          throw new NotFoundError('Session not found.');
+        }
+        throw new ConflictError('Session was modified by another request.');
+      }
+
+      this.writeTurns(session);
+    })();
+
+    session.version += 1;
+    session.updatedAt = updatedAt;
+  }
+
+  async findIdsByStatus(status: SessionStatus): Promise<string[]> {
+    const rows = this.db.prepare('SELECT id FROM sessions WHERE status = ?').all(status) as Array<{ id: string }>;
+    return rows.map((row) => row.id);
+  }
+
+  async sweep(idleBefore: string): Promise<{ expired: number; restored: number; removed: number }> {
+    // The version bump makes a request still holding the session fail with a conflict.
+    return this.db.transaction(() => {
+      const restored = this.db
+        .prepare(
+          `UPDATE sessions SET status = 'completed', retry_question_number = NULL, prompt_served_at = NULL,
+            version = version + 1
+          WHERE status = 'in_progress' AND result IS NOT NULL AND updated_at < ?`
+        )
+        .run(idleBefore).changes;
+      const expired = this.db
+        .prepare(
+          `UPDATE sessions SET status = 'expired', prompt_served_at = NULL, version = version + 1
+          WHERE status = 'in_progress' AND updated_at < ?`
+        )
+        .run(idleBefore).changes;
+      return { expired, restored, removed: 0 };
+    })();
+  }
+
+  private loadTurns(sessionId: string): TurnRow[] {
+    return this.db
+      .prepare('SELECT * FROM session_turns WHERE session_id = ? ORDER BY turn_index')
+      .all(sessionId) as TurnRow[];
+  }
+
+  private writeTurns(session: InterviewSession): void {
+    this.db.prepare('DELETE FROM session_turns WHERE session_id = ?').run(session.id);
+
+    const insert = this.db.prepare(
+      `INSERT INTO session_turns (
+        session_id, turn_index, question_id, question, answer, main_response_delay_sec,
+        main_leading_silence_sec, main_fluency, main_pronunciation, main_feedback, follow_ups, retries,
+        answer_rating, next_question_selection
+      ) VALUES (
+        @session_id, @turn_index, @question_id, @question, @answer, @main_response_delay_sec,
+        @main_leading_silence_sec, @main_fluency, @main_pronunciation, @main_feedback, @follow_ups, @retries,
+        @answer_rating, @next_question_selection
+      )`
+    );
+
+    session.turns.forEach((turn, index) => {
+      insert.run({ session_id: session.id, ...toTurnRow(turn, index) });
+    });
+  }
+}
+
+function toSessionRow(session: InterviewSession): SessionRow {
+  return {
+    id: session.id,
+    version: session.version,
+    user_id: session.userId,
+    created_at: session.createdAt,
+    updated_at: session.updatedAt,
+    status: session.status,
+    template_id: session.templateId,
+    coach_persona: session.coachPersona,
+    interviewer_persona: session.interviewerPersona,
+    time_limits: session.timeLimits ? JSON.stringify(session.timeLimits) : null,
+    max_follow_ups: session.maxFollowUps,
+    coach_mode: session.coachMode ? 1 : 0,
+    adaptive: session.adaptive ? 1 : 0,
+    questions: JSON.stringify(session.questions),
+    question_index: session.questionIndex,
+    skipped_question_ids: JSON.stringify(session.skippedQuestionIds),
+    awaiting_follow_up: session.awaitingFollowUp ? 1 : 0,
+    pending_follow_up_question: session.pendingFollowUpQuestion,
+    retry_question_number: session.retryQuestionNumber,
+    prompt_served_at: session.promptServedAt,
+    result: session.result ? JSON.stringify(session.result) : null,
+    feedback_generation: session.feedbackGeneration ? JSON.stringify(session.feedbackGeneration) : null
+  };
+}
+
+function toTurnRow(turn: SessionTurn, index: number): TurnRow {
+  return {
+    turn_index: index,
+    question_id: turn.questionId,
+    question: turn.question,
+    answer: turn.answer,
+    main_response_delay_sec: turn.mainResponseDelaySec,
+    main_leading_silence_sec: turn.mainLeadingSilenceSec,
+    main_fluency: turn.mainFluency ? JSON.stringify(turn.mainFluency) : null,
+    main_pronunciation: turn.mainPronunciation ? JSON.stringify(turn.mainPronunciation) : null,
+    main_feedback: turn.mainFeedback ? JSON.stringify(turn.mainFeedback) : null,
+    follow_ups: JSON.stringify(turn.followUps),
+    retries: JSON.stringify(turn.retries),
+    answer_rating: turn.answerRating ? JSON.stringify(turn.answerRating) : null,
+    next_question_selection: turn.nextQuestionSelection ? JSON.stringify(turn.nextQuestionSelection) : null
+  };
+}
+
+function fromRows(row: SessionRow, turnRows: TurnRow[]): InterviewSession {
+  return {
+    id: row.id,
+    version: row.version,
+    userId: row.user_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    status: row.status,
+    templateId: row.template_id,
+    coachPersona: row.coach_persona,
+    interviewerPersona: row.interviewer_persona,
+    timeLimits: row.time_limits ? (JSON.parse(row.time_limits) as InterviewSession['timeLimits']) : null,
+    maxFollowUps: row.max_follow_ups,
+    coachMode: row.coach_mode === 1,
+    adaptive: row.adaptive === 1,
+    questions: JSON.parse(row.questions) as InterviewSession['questions'],
+    questionIndex: row.question_index,
+    skippedQuestionIds: JSON.parse(row.skipped_question_ids) as string[],
+    awaitingFollowUp: row.awaiting_follow_up === 1,
+    pendingFollowUpQuestion: row.pending_follow_up_question,
+    retryQuestionNumber: row.retry_question_number,
+    promptServedAt: row.prompt_served_at,
+    turns: turnRows.map((turnRow) => ({
+      questionId: turnRow.question_id,
+      question: turnRow.question,
+      answer: turnRow.answer,
+      mainResponseDelaySec: turnRow.main_response_delay_sec,
+      mainLeadingSilenceSec: turnRow.main_leading_silence_sec,
+      mainFluency: turnRow.main_fluency ? (JSON.parse(turnRow.main_fluency) as SessionTurn['mainFluency']) : null,
+      mainPronunciation: turnRow.main_pronunciation
+        ? (JSON.parse(turnRow.main_pronunciation) as SessionTurn['mainPronunciation'])
+        : null,
+      mainFeedback: turnRow.main_feedback ? (JSON.parse(turnRow.main_feedback) as SessionTurn['mainFeedback']) : null,
+      followUps: JSON.parse(turnRow.follow_ups) as SessionTurn['followUps'],
+      retries: JSON.parse(turnRow.retries) as SessionTurn['retries'],
+      answerRating: turnRow.answer_rating
+        ? (JSON.parse(turnRow.answer_rating) as SessionTurn['answerRating'])
+        : null,
+      nextQuestionSelection: turnRow.next_question_selection
+        ? (JSON.parse(turnRow.next_question_selection) as SessionTurn['nextQuestionSelection'])
+        : null
+    })),
+    result: row.result ? (JSON.parse(row.result) as InterviewSession['result']) : null,
+    feedbackGeneration: row.feedback_generation
+      ? (JSON.parse(row.feedback_generation) as InterviewSession['feedbackGeneration'])
+      : null
+  };
+}
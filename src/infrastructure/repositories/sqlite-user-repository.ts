@@ -0,0 +1,41 @@
+import type { User } from '../../domain/entities/user.js';
+import type { UserRepository } from '../../domain/repositories/user-repository.js';
+import type { SqliteDatabase } from '../sqlite/database.js';
+
+interface UserRow {
+  id: string;
+  name: string;
+  api_key_hash: string;
+  created_at: string;
+}
+
+export class SqliteUserRepository implements UserRepository {
+  constructor(private readonly db: SqliteDatabase) {}
+
+  async create(user: User): Promise<void> {
+    this.db
+      .prepare('INSERT INTO users (id, name, api_key_hash, created_at) VALUES (?, ?, ?, ?)')
+      .run(user.id, user.name, user.apiKeyHash, user.createdAt);
+  }
+
+  async findById(userId: string): Promise<User | null> {
+    const row = this.db.prepare('SELECT * FROM users WHERE id = ?').get(userId) as UserRow | undefined;
+    return row ? fromRow(row) : null;
+  }
+
+  async findByApiKeyHash(apiKeyHash: string): Promise<User | null> {
+    const row = this.db.prepare('SELECT * FROM users WHERE api_key_hash = ?').get(apiKeyHash) as
+      | UserRow
+      | undefined;
+    return row ? fromRow(row) : null;
+  }
+}
+
+function fromRow(row: UserRow): User {
+  return {
+    id: row.id,
+    name: row.name,
+    apiKeyHash: row.api_key_hash,
+    createdAt: row.created_at
+  };
+}
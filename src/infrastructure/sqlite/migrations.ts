@@ -0,0 +1,234 @@
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_sessions',
+    sql: `
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        status TEXT NOT NULL,
+        allow_follow_ups INTEGER NOT NULL,
+        questions TEXT NOT NULL,
+        question_index INTEGER NOT NULL,
+        awaiting_follow_up INTEGER NOT NULL,
+        pending_follow_up_question TEXT,
+        result TEXT
+      );
+
+      CREATE TABLE session_turns (
+        session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        turn_index INTEGER NOT NULL,
+        question TEXT NOT NULL,
+        answer TEXT NOT NULL,
+        follow_up_question TEXT,
+        follow_up_answer TEXT,
+        main_response_delay_sec REAL NOT NULL,
+        follow_up_response_delay_sec REAL,
+        PRIMARY KEY (session_id, turn_index)
+      );
+    `
+  },
+  {
+    version: 2,
+    name: 'add_session_version',
+    sql: `
+      ALTER TABLE sessions ADD COLUMN version INTEGER NOT NULL DEFAULT 0;
+    `
+  },
+  {
+    version: 3,
+    name: 'create_idempotency_keys',
+    sql: `
+      CREATE TABLE idempotency_keys (
+        session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        key TEXT NOT NULL,
+        request_fingerprint TEXT NOT NULL,
+        response TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (session_id, key)
+      );
+    `
+  },
+  {
+    version: 4,
+    name: 'create_questions',
+    sql: `
+      CREATE TABLE questions (
+        id TEXT PRIMARY KEY,
+        text TEXT NOT NULL,
+        category TEXT NOT NULL,
+        difficulty TEXT NOT NULL,
+        tags TEXT NOT NULL,
+        retired INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      UPDATE sessions SET questions = (
+        SELECT json_group_array(
+          json_object('questionId', 'legacy', 'text', value, 'category', 'behavioral', 'difficulty', 'medium')
+        )
+        FROM json_each(sessions.questions)
+      )
+      WHERE json_type(questions, '$[0]') = 'text';
+
+      ALTER TABLE session_turns ADD COLUMN question_id TEXT NOT NULL DEFAULT 'legacy';
+    `
+  },
+  {
+    version: 5,
+    name: 'add_session_template',
+    sql: `
+      ALTER TABLE sessions ADD COLUMN template_id TEXT;
+      ALTER TABLE sessions ADD COLUMN coach_persona TEXT NOT NULL DEFAULT 'a friendly big-tech interviewer';
+      ALTER TABLE sessions ADD COLUMN time_limits TEXT;
+    `
+  },
+  {
+    version: 6,
+    name: 'create_users',
+    sql: `
+      CREATE TABLE users (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        api_key_hash TEXT NOT NULL UNIQUE,
+        created_at TEXT NOT NULL
+      );
+
+      ALTER TABLE sessions ADD COLUMN user_id TEXT REFERENCES users(id);
+      CREATE INDEX sessions_user_created_idx ON sessions (user_id, created_at);
+    `
+  },
+  {
+    version: 7,
+    name: 'add_server_measured_timing',
+    sql: `
+      ALTER TABLE sessions ADD COLUMN prompt_served_at TEXT;
+      ALTER TABLE session_turns ADD COLUMN main_leading_silence_sec REAL;
+      ALTER TABLE session_turns ADD COLUMN follow_up_leading_silence_sec REAL;
+    `
+  },
+  {
+    version: 8,
+    name: 'add_turn_fluency',
+    sql: `
+      ALTER TABLE session_turns ADD COLUMN main_fluency TEXT;
+      ALTER TABLE session_turns ADD COLUMN follow_up_fluency TEXT;
+    `
+  },
+  {
+    version: 9,
+    name: 'add_turn_pronunciation',
+    sql: `
+      ALTER TABLE session_turns ADD COLUMN main_pronunciation TEXT;
+      ALTER TABLE session_turns ADD COLUMN follow_up_pronunciation TEXT;
+    `
+  },
+  {
+    version: 10,
+    name: 'add_coach_mode',
+    sql: `
+      ALTER TABLE sessions ADD COLUMN coach_mode INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE session_turns ADD COLUMN main_feedback TEXT;
+      ALTER TABLE session_turns ADD COLUMN follow_up_feedback TEXT;
+    `
+  },
+  {
+    version: 11,
+    name: 'add_answer_retries',
+    sql: `
+      ALTER TABLE sessions ADD COLUMN retry_question_number INTEGER;
+      ALTER TABLE session_turns ADD COLUMN retries TEXT NOT NULL DEFAULT '[]';
+    `
+  },
+  {
+    version: 12,
+    name: 'add_session_lifecycle',
+    sql: `
+      ALTER TABLE sessions ADD COLUMN updated_at TEXT;
+      UPDATE sessions SET updated_at = COALESCE(prompt_served_at, created_at);
+      ALTER TABLE sessions ADD COLUMN skipped_question_ids TEXT NOT NULL DEFAULT '[]';
+      CREATE INDEX sessions_status_updated_idx ON sessions (status, updated_at);
+    `
+  },
+  {
+    version: 13,
+    name: 'add_feedback_generation',
+    sql: `
+      ALTER TABLE sessions ADD COLUMN feedback_generation TEXT;
+    `
+  },
+  {
+    version: 14,
+    name: 'create_notebook_items',
+    sql: `
+      CREATE TABLE notebook_items (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id),
+        kind TEXT NOT NULL,
+        key TEXT NOT NULL,
+        category TEXT,
+        original TEXT,
+        improved TEXT NOT NULL,
+        explanation TEXT NOT NULL,
+        occurrences INTEGER NOT NULL,
+        examples TEXT NOT NULL,
+        ease_factor REAL NOT NULL,
+        interval_days INTEGER NOT NULL,
+        repetitions INTEGER NOT NULL,
+        due_at TEXT NOT NULL,
+        last_reviewed_at TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        UNIQUE (user_id, kind, key)
+      );
+
+      CREATE INDEX notebook_items_user_due_idx ON notebook_items (user_id, due_at);
+    `
+  },
+  {
+    version: 15,
+    name: 'add_adaptive_sessions',
+    sql: `
+      ALTER TABLE sessions ADD COLUMN adaptive INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE session_turns ADD COLUMN answer_rating TEXT;
+      ALTER TABLE session_turns ADD COLUMN next_question_selection TEXT;
+    `
+  },
+  {
+    version: 16,
+    name: 'add_follow_up_rounds_and_personas',
+    sql: `
+      ALTER TABLE sessions ADD COLUMN max_follow_ups INTEGER NOT NULL DEFAULT 1;
+      ALTER TABLE sessions ADD COLUMN interviewer_persona TEXT NOT NULL DEFAULT 'friendly';
+      UPDATE sessions SET max_follow_ups = allow_follow_ups;
+      ALTER TABLE sessions DROP COLUMN allow_follow_ups;
+
+      ALTER TABLE session_turns ADD COLUMN follow_ups TEXT NOT NULL DEFAULT '[]';
+      UPDATE session_turns
+      SET follow_ups = json_array(json_object(
+        'question', follow_up_question,
+        'answer', follow_up_answer,
+        'responseDelaySec', follow_up_response_delay_sec,
+        'leadingSilenceSec', follow_up_leading_silence_sec,
+        'fluency', json(follow_up_fluency),
+        'pronunciation', json(follow_up_pronunciation),
+        'feedback', json(follow_up_feedback)
+      ))
+      WHERE follow_up_question IS NOT NULL AND follow_up_answer IS NOT NULL;
+      ALTER TABLE session_turns DROP COLUMN follow_up_question;
+      ALTER TABLE session_turns DROP COLUMN follow_up_answer;
+      ALTER TABLE session_turns DROP COLUMN follow_up_response_delay_sec;
+      ALTER TABLE session_turns DROP COLUMN follow_up_leading_silence_sec;
+      ALTER TABLE session_turns DROP COLUMN follow_up_fluency;
+      ALTER TABLE session_turns DROP COLUMN follow_up_pronunciation;
+      ALTER TABLE session_turns DROP COLUMN follow_up_feedback;
+    `
+  }
+];
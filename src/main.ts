@@ -1,38 +1,174 @@
 import 'dotenv/config';
+import { AuthenticateUserUseCase } from './application/use-cases/authenticate-user.js';
+import { CreateQuestionUseCase } from './application/use-cases/create-question.js';
 import { CreateSessionUseCase } from './application/use-cases/create-session.js';
+import { CreateUserUseCase } from './application/use-cases/create-user.js';
+import { EndSessionUseCase } from './application/use-cases/end-session.js';
+import { GenerateSessionFeedbackUseCase } from './application/use-cases/generate-session-feedback.js';
 import { GetCurrentPromptUseCase } from './application/use-cases/get-current-prompt.js';
+import { GetProgressUseCase } from './application/use-cases/get-progress.js';
+import { GetReviewQueueUseCase } from './application/use-cases/get-review-queue.js';
 import { GetSessionResultUseCase } from './application/use-cases/get-session-result.js';
+import type { FeedbackJob } from './application/use-cases/helpers.js';
+import { ListNotebookUseCase } from './application/use-cases/list-notebook.js';
+import { ListQuestionsUseCase } from './application/use-cases/list-questions.js';
+import { ListTemplatesUseCase } from './application/use-cases/list-templates.js';
+import { ListUserSessionsUseCase } from './application/use-cases/list-user-sessions.js';
+import { PauseSessionUseCase } from './application/use-cases/pause-session.js';
+import { RetireQuestionUseCase } from './application/use-cases/retire-question.js';
+import { RetryFeedbackUseCase } from './application/use-cases/retry-feedback.js';
+import { RetryQuestionUseCase } from './application/use-cases/retry-question.js';
+import { ReviewNotebookItemUseCase } from './application/use-cases/review-notebook-item.js';
+import { SkipQuestionUseCase } from './application/use-cases/skip-question.js';
+import { SpeakImprovedAnswerUseCase } from './application/use-cases/speak-improved-answer.js';
 import { SubmitAnswerUseCase } from './application/use-cases/submit-answer.js';
 import { SynthesizeSpeechUseCase } from './application/use-cases/synthesize-speech.js';
-import { createOpenAIClient, verifyOpenAIAuth } from './infrastructure/openai/openai-client.js';
-import { OpenAIInterviewCoachService } from './infrastructure/openai/openai-interview-coach-service.js';
-import { OpenAISpeechToTextService } from './infrastructure/openai/openai-speech-to-text-service.js';
-import { OpenAITextToSpeechService } from './infrastructure/openai/openai-text-to-speech-service.js';
+import { UpdateQuestionUseCase } from './application/use-cases/update-question.js';
+import { INTERVIEW_TEMPLATES } from './domain/entities/interview-templates.js';
+import { QUESTION_BANK } from './domain/entities/question-bank.js';
+import { createAiServices } from './infrastructure/providers/ai-provider-registry.js';
+import type { IdempotencyRepository } from './domain/repositories/idempotency-repository.js';
+import type { NotebookRepository } from './domain/repositories/notebook-repository.js';
+import type { QuestionRepository } from './domain/repositories/question-repository.js';
+import type { SessionRepository } from './domain/repositories/session-repository.js';
+import type { UserRepository } from './domain/repositories/user-repository.js';
+import { InMemoryJobQueue } from './infrastructure/queue/in-memory-job-queue.js';
+import { InMemoryIdempotencyRepository } from './infrastructure/repositories/in-memory-idempotency-repository.js';
+import { InMemoryNotebookRepository } from './infrastructure/repositories/in-memory-notebook-repository.js';
+import { InMemoryQuestionRepository } from './infrastructure/repositories/in-memory-question-repository.js';
 import { InMemorySessionRepository } from './infrastructure/repositories/in-memory-session-repository.js';
+import { InMemoryTemplateRepository } from './infrastructure/repositories/in-memory-template-repository.js';
+import { InMemoryUserRepository } from './infrastructure/repositories/in-memory-user-repository.js';
+import { startSessionSweeper } from './infrastructure/repositories/session-sweeper.js';
+import { SqliteIdempotencyRepository } from './infrastructure/repositories/sqlite-idempotency-repository.js';
+import { SqliteNotebookRepository } from './infrastructure/repositories/sqlite-notebook-repository.js';
+import { SqliteQuestionRepository } from './infrastructure/repositories/sqlite-question-repository.js';
+import { SqliteSessionRepository } from './infrastructure/repositories/sqlite-session-repository.js';
+import { SqliteUserRepository } from './infrastructure/repositories/sqlite-user-repository.js';
+import { openDatabase } from './infrastructure/sqlite/database.js';
 import { buildServer } from './presentation/http/server.js';
 
 const PORT = Number(process.env.BACKEND_PORT || 3000);
 const HOST = process.env.BACKEND_HOST || '0.0.0.0';
+const SESSION_STORE = process.env.SESSION_STORE || 'memory';
+const LLM_PROVIDER = process.env.LLM_PROVIDER || 'openai';
+const SQLITE_PATH = process.env.SQLITE_PATH || 'data/bot-english.db';
+const ADMIN_API_KEY = process.env.ADMIN_API_KEY?.trim() || undefined;
+const VOICE_END_OF_ANSWER_MS = Number(process.env.VOICE_END_OF_ANSWER_MS || 1500);
+const SESSION_TTL_MINUTES = Number(process.env.SESSION_TTL_MINUTES || 120);
+const SESSION_SWEEP_INTERVAL_MS = Number(process.env.SESSION_SWEEP_INTERVAL_MS || 60_000);
+const MEMORY_SESSION_RETENTION_HOURS = Number(process.env.MEMORY_SESSION_RETENTION_HOURS || 24);
+const FEEDBACK_CONCURRENCY = Number(process.env.FEEDBACK_CONCURRENCY || 2);
 
 async function start() {
-  const sessionRepository = new InMemorySessionRepository();
-  const openAIClient = createOpenAIClient();
-  await verifyOpenAIAuth(openAIClient);
-  const interviewCoachService = new OpenAIInterviewCoachService(openAIClient);
-  const speechToTextService = new OpenAISpeechToTextService(openAIClient);
-  const textToSpeechService = new OpenAITextToSpeechService(openAIClient);
+  const { sessionRepository, idempotencyRepository, questionRepository, userRepository, notebookRepository } =
+    createRepositories();
+  const templateRepository = new InMemoryTemplateRepository(INTERVIEW_TEMPLATES);
+  const { interviewCoachService, speechToTextService, textToSpeechService, pronunciationAssessmentService } =
+    await createAiServices(LLM_PROVIDER);
+  const feedbackQueue = new InMemoryJobQueue<FeedbackJob>({ concurrency: FEEDBACK_CONCURRENCY });
+  const generateSessionFeedback = new GenerateSessionFeedbackUseCase(
+    sessionRepository,
+    interviewCoachService,
+    feedbackQueue,
+    notebookRepository
+  );
 
   const app = await buildServer({
-    createSession: new CreateSessionUseCase(sessionRepository),
+    createSession: new CreateSessionUseCase(sessionRepository, questionRepository, templateRepository),
     getCurrentPrompt: new GetCurrentPromptUseCase(sessionRepository),
-    submitAnswer: new SubmitAnswerUseCase(sessionRepository, speechToTextService, interviewCoachService),
+    submitAnswer: new SubmitAnswerUseCase(
+      sessionRepository,
+      speechToTextService,
+      interviewCoachService,
+      idempotencyRepository,
+      pronunciationAssessmentService,
+      feedbackQueue,
+      questionRepository
+    ),
+    retryQuestion: new RetryQuestionUseCase(sessionRepository),
+    skipQuestion: new SkipQuestionUseCase(sessionRepository, feedbackQueue),
+    pauseSession: new PauseSessionUseCase(sessionRepository),
+    endSession: new EndSessionUseCase(sessionRepository, feedbackQueue),
     getSessionResult: new GetSessionResultUseCase(sessionRepository),
-    synthesizeSpeech: new SynthesizeSpeechUseCase(textToSpeechService)
+    retryFeedback: new RetryFeedbackUseCase(sessionRepository, feedbackQueue),
+    synthesizeSpeech: new SynthesizeSpeechUseCase(textToSpeechService),
+    speakImprovedAnswer: new SpeakImprovedAnswerUseCase(sessionRepository, textToSpeechService),
+    listQuestions: new ListQuestionsUseCase(questionRepository),
+    createQuestion: new CreateQuestionUseCase(questionRepository),
+    updateQuestion: new UpdateQuestionUseCase(questionRepository),
+    retireQuestion: new RetireQuestionUseCase(questionRepository),
+    listTemplates: new ListTemplatesUseCase(templateRepository),
+    authenticateUser: new AuthenticateUserUseCase(userRepository),
+    createUser: new CreateUserUseCase(userRepository),
+    listUserSessions: new ListUserSessionsUseCase(sessionRepository),
+    getProgress: new GetProgressUseCase(sessionRepository),
+    listNotebook: new ListNotebookUseCase(notebookRepository),
+    getReviewQueue: new GetReviewQueueUseCase(notebookRepository),
+    reviewNotebookItem: new ReviewNotebookItemUseCase(notebookRepository),
+    adminApiKey: ADMIN_API_KEY,
+    voiceEndOfAnswerSilenceMs: VOICE_END_OF_ANSWER_MS
   });
 
+  feedbackQueue.process((job) =>
+    generateSessionFeedback
+      .execute(job)
+      .catch((error: unknown) => app.log.error({ err: error, sessionId: job.sessionId }, 'Feedback job failed'))
+  );
+  app.addHook('onClose', async () => feedbackQueue.close());
+  const resumed = await generateSessionFeedback.resumePending();
+  if (resumed) {
+    app.log.info({ resumed }, 'Resumed pending feedback jobs');
+  }
+
+  const stopSessionSweeper = startSessionSweeper(sessionRepository, idempotencyRepository, {
+    ttlMs: SESSION_TTL_MINUTES * 60_000,
+    intervalMs: SESSION_SWEEP_INTERVAL_MS,
+    onSweep: (result) => {
+      if (result.expired || result.restored || result.removed || result.idempotencyRecordsRemoved) {
+        app.log.info(result, 'Swept idle sessions');
+      }
+    },
+    onError: (error) => app.log.error(error, 'Session sweep failed')
+  });
+  app.addHook('onClose', async () => stopSessionSweeper());
+
   await app.listen({ host: HOST, port: PORT });
 }
 
+function createRepositories(): {
+  sessionRepository: SessionRepository;
+  idempotencyRepository: IdempotencyRepository;
+  questionRepository: QuestionRepository;
+  userRepository: UserRepository;
+  notebookRepository: NotebookRepository;
+} {
+  switch (SESSION_STORE) {
+    case 'memory':
+      return {
+        sessionRepository: new InMemorySessionRepository({
+          completedRetentionMs: MEMORY_SESSION_RETENTION_HOURS * 3_600_000
+        }),
+        idempotencyRepository: new InMemoryIdempotencyRepository(),
+        questionRepository: new InMemoryQuestionRepository(QUESTION_BANK),
+        userRepository: new InMemoryUserRepository(),
+        notebookRepository: new InMemoryNotebookRepository()
+      };
+    case 'sqlite': {
+      const db = openDatabase(SQLITE_PATH);
+      return {
+        sessionRepository: new SqliteSessionRepository(db),
+        idempotencyRepository: new SqliteIdempotencyRepository(db),
+        questionRepository: new SqliteQuestionRepository(db, QUESTION_BANK),
+        userRepository: new SqliteUserRepository(db),
+        notebookRepository: new SqliteNotebookRepository(db)
+      };
+    }
+    default:
+      throw new Error(`Unknown SESSION_STORE "${SESSION_STORE}". Use "memory" or "sqlite".`);
+  }
+}
+
 start().catch((error) => {
   console.error(error);
   process.exit(1);
@@ -1,18 +1,154 @@
-import Fastify, { type FastifyInstance } from 'fastify';
+import { timingSafeEqual } from 'node:crypto';
+import Fastify, { type FastifyError, type FastifyInstance, type FastifyRequest } from 'fastify';
 import swagger from '@fastify/swagger';
+import multipart from '@fastify/multipart';
 import swaggerUi from '@fastify/swagger-ui';
+import websocket from '@fastify/websocket';
 import { z } from 'zod';
+import { MAX_ANSWER_AUDIO_BYTES } from '../../application/audio/answer-audio.js';
+import { ConflictError } from '../../application/errors/conflict-error.js';
 import { NotFoundError } from '../../application/errors/not-found-error.js';
+import { UnauthorizedError } from '../../application/errors/unauthorized-error.js';
+import { UpstreamUnavailableError } from '../../application/errors/upstream-unavailable-error.js';
 import { ValidationError } from '../../application/errors/validation-error.js';
+import { AuthenticateUserUseCase } from '../../application/use-cases/authenticate-user.js';
+import { CreateQuestionUseCase } from '../../application/use-cases/create-question.js';
 import { CreateSessionUseCase } from '../../application/use-cases/create-session.js';
+import { CreateUserUseCase } from '../../application/use-cases/create-user.js';
+import { EndSessionUseCase } from '../../application/use-cases/end-session.js';
 import { GetCurrentPromptUseCase } from '../../application/use-cases/get-current-prompt.js';
+import { GetProgressUseCase } from '../../application/use-cases/get-progress.js';
+import { GetReviewQueueUseCase } from '../../application/use-cases/get-review-queue.js';
 import { GetSessionResultUseCase } from '../../application/use-cases/get-session-result.js';
-import { SubmitAnswerUseCase } from '../../application/use-cases/submit-answer.js';
+import { ListNotebookUseCase } from '../../application/use-cases/list-notebook.js';
+import { ListQuestionsUseCase } from '../../application/use-cases/list-questions.js';
+import { ListTemplatesUseCase } from '../../application/use-cases/list-templates.js';
+import { ListUserSessionsUseCase } from '../../application/use-cases/list-user-sessions.js';
+import { PauseSessionUseCase } from '../../application/use-cases/pause-session.js';
+import { RetireQuestionUseCase } from '../../application/use-cases/retire-question.js';
+import { RetryFeedbackUseCase } from '../../application/use-cases/retry-feedback.js';
+import { RetryQuestionUseCase } from '../../application/use-cases/retry-question.js';
+import { ReviewNotebookItemUseCase } from '../../application/use-cases/review-notebook-item.js';
+import { SkipQuestionUseCase } from '../../application/use-cases/skip-question.js';
+import { SpeakImprovedAnswerUseCase } from '../../application/use-cases/speak-improved-answer.js';
+import {
+  SubmitAnswerUseCase,
+  type SubmitAnswerInput
+} from '../../application/use-cases/submit-answer.js';
 import { SynthesizeSpeechUseCase } from '../../application/use-cases/synthesize-speech.js';
+import { UpdateQuestionUseCase } from '../../application/use-cases/update-question.js';
+import { INTERVIEWER_PERSONAS, MAX_FOLLOW_UP_ROUNDS } from '../../domain/entities/interview-template.js';
+import { NOTEBOOK_ITEM_KINDS } from '../../domain/entities/notebook.js';
+import { QUESTION_CATEGORIES, QUESTION_DIFFICULTIES } from '../../domain/entities/question.js';
+import {
+  CEFR_LEVELS,
+  CORRECTION_CATEGORIES,
+  PROFICIENCY_SKILLS,
+  RUBRIC_CRITERIA,
+  SESSION_STATUSES,
+  type SessionStatus
+} from '../../domain/entities/session.js';
+import type { User } from '../../domain/entities/user.js';
+import { VoiceSocketSession } from './voice-socket.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    user: User | null;
+  }
+}
+
+export interface ServerDependencies {
+  createSession: CreateSessionUseCase;
+  getCurrentPrompt: GetCurrentPromptUseCase;
+  submitAnswer: SubmitAnswerUseCase;
+  retryQuestion: RetryQuestionUseCase;
+  skipQuestion: SkipQuestionUseCase;
+  pauseSession: PauseSessionUseCase;
+  endSession: EndSessionUseCase;
+  getSessionResult: GetSessionResultUseCase;
+  retryFeedback: RetryFeedbackUseCase;
+  synthesizeSpeech: SynthesizeSpeechUseCase;
+  speakImprovedAnswer: SpeakImprovedAnswerUseCase;
+  listQuestions: ListQuestionsUseCase;
+  createQuestion: CreateQuestionUseCase;
+  updateQuestion: UpdateQuestionUseCase;
+  retireQuestion: RetireQuestionUseCase;
+  listTemplates: ListTemplatesUseCase;
+  authenticateUser: AuthenticateUserUseCase;
+  createUser: CreateUserUseCase;
+  listUserSessions: ListUserSessionsUseCase;
+  getProgress: GetProgressUseCase;
+  listNotebook: ListNotebookUseCase;
+  getReviewQueue: GetReviewQueueUseCase;
+  reviewNotebookItem: ReviewNotebookItemUseCase;
+  adminApiKey?: string;
+  /** Quiet time that ends a spoken answer on the voice WebSocket; defaults to 1500 ms. */
+  voiceEndOfAnswerSilenceMs?: number;
+}
+
+const questionCategorySchema = z.enum(QUESTION_CATEGORIES);
+const questionDifficultySchema = z.enum(QUESTION_DIFFICULTIES);
 
 const createSessionSchema = z.object({
+  templateId: z.string().min(1).optional(),
   questionCount: z.number().int().min(1).max(10).optional(),
-  allowFollowUps: z.boolean().optional()
+  allowFollowUps: z.boolean().optional(),
+  maxFollowUps: z.number().int().min(0).max(MAX_FOLLOW_UP_ROUNDS).optional(),
+  interviewerPersona: z.enum(INTERVIEWER_PERSONAS).optional(),
+  coachMode: z.boolean().optional(),
+  adaptive: z.boolean().optional(),
+  categories: z.array(questionCategorySchema).min(1).optional(),
+  difficulties: z.array(questionDifficultySchema).min(1).optional()
+});
+
+const retryQuestionSchema = z.object({
+  questionNumber: z.number().int().min(1).optional()
+});
+
+const createUserSchema = z.object({
+  name: z.string().min(1).max(100)
+});
+
+const listUserSessionsQuerySchema = z.object({
+  status: z.enum(SESSION_STATUSES).optional(),
+  limit: z.coerce.number().int().min(1).max(50).optional(),
+  offset: z.coerce.number().int().min(0).optional()
+});
+
+const progressQuerySchema = z.object({
+  weeks: z.coerce.number().int().min(1).max(52).optional()
+});
+
+const listNotebookQuerySchema = z.object({
+  kind: z.enum(NOTEBOOK_ITEM_KINDS).optional(),
+  limit: z.coerce.number().int().min(1).max(50).optional(),
+  offset: z.coerce.number().int().min(0).optional()
+});
+
+const reviewQueueQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).optional()
+});
+
+const reviewNotebookItemSchema = z.object({
+  quality: z.number().int().min(0).max(5)
+});
+
+const createQuestionSchema = z.object({
+  text: z.string().min(1).max(1000),
+  category: questionCategorySchema,
+  difficulty: questionDifficultySchema,
+  tags: z.array(z.string().min(1).max(50)).max(20).optional()
+});
+
+const updateQuestionSchema = createQuestionSchema.partial();
+
+const listQuestionsQuerySchema = z.object({
+  category: questionCategorySchema.optional(),
+  difficulty: questionDifficultySchema.optional(),
+  includeRetired: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional()
 });
 
 const synthesizeSpeechSchema = z.object({
@@ -26,6 +162,13 @@ const submitAnswerSchema = z.object({
   responseDelaySec: z.number().min(0).optional()
 });
 
+const submitAnswerFieldsSchema = z.object({
+  answerText: z.string().min(1).optional(),
+  mimeType: z.string().min(1).optional()
+});
+
+const idempotencyKeyHeaderSchema = z.string().min(1).max(255).optional();
+
 const errorResponseSchema = {
   type: 'object',
   required: ['error'],
@@ -34,420 +177,2022 @@ const errorResponseSchema = {
   }
 } as const;
 
-const sessionIdParamSchema = {
+const upstreamUnavailableResponseSchema = {
   type: 'object',
-  required: ['sessionId'],
+  required: ['error', 'retryAfterSec'],
   properties: {
-    sessionId: { type: 'string', format: 'uuid' }
+    error: { type: 'string' },
+    retryAfterSec: { type: 'integer' }
   }
 } as const;
 
-export function buildServer(deps: {
-  createSession: CreateSessionUseCase;
-  getCurrentPrompt: GetCurrentPromptUseCase;
-  submitAnswer: SubmitAnswerUseCase;
-  getSessionResult: GetSessionResultUseCase;
-  synthesizeSpeech: SynthesizeSpeechUseCase;
-}): Promise<FastifyInstance> {
-  const app = Fastify({ logger: true, bodyLimit: 10 * 1024 * 1024 });
+const correctionResponseSchema = {
+  type: 'object',
+  required: ['original', 'corrected', 'reason', 'category', 'questionNumber'],
+  properties: {
+    original: { type: 'string' },
+    corrected: { type: 'string' },
+    reason: { type: 'string' },
+    category: { type: 'string', enum: CORRECTION_CATEGORIES },
+    questionNumber: { anyOf: [{ type: 'integer' }, { type: 'null' }] }
+  }
+} as const;
 
-  return registerAndBuild(app, deps);
-}
+const timingSummaryResponseSchema = {
+  type: 'object',
+  required: ['avgResponseDelaySec', 'longPausesCount', 'totalTurns'],
+  properties: {
+    avgResponseDelaySec: { type: 'number' },
+    longPausesCount: { type: 'integer' },
+    totalTurns: { type: 'integer' },
+    avgLeadingSilenceSec: { anyOf: [{ type: 'number' }, { type: 'null' }] }
+  }
+} as const;
+
+const nullableNumberSchema = { anyOf: [{ type: 'number' }, { type: 'null' }] } as const;
+
+/** 1-based follow-up round of an answer; null for the main answer. */
+const followUpRoundResponseSchema = { anyOf: [{ type: 'integer' }, { type: 'null' }] } as const;
+
+const fillerWordsResponseSchema = {
+  type: 'object',
+  additionalProperties: { type: 'integer' }
+} as const;
+
+const answerFluencyProperties = {
+  durationSec: nullableNumberSchema,
+  wordCount: { type: 'integer' },
+  wordsPerMinute: nullableNumberSchema,
+  fillerWordCount: { type: 'integer' },
+  fillerWords: fillerWordsResponseSchema,
+  midAnswerPauses: { anyOf: [{ type: 'integer' }, { type: 'null' }] }
+} as const;
+
+const fluencyResponseSchema = {
+  anyOf: [
+    { type: 'null' },
+    {
+      type: 'object',
+      required: ['spokenAnswers', 'avgWordsPerMinute', 'fillerWordCount', 'fillerWords', 'midAnswerPauses', 'answers'],
+      properties: {
+        spokenAnswers: { type: 'integer' },
+        avgWordsPerMinute: nullableNumberSchema,
+        fillerWordCount: { type: 'integer' },
+        fillerWords: fillerWordsResponseSchema,
+        midAnswerPauses: { anyOf: [{ type: 'integer' }, { type: 'null' }] },
+        answers: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['questionNumber', 'kind', 'followUpRound', ...Object.keys(answerFluencyProperties)],
+            properties: {
+              questionNumber: { type: 'integer' },
+              kind: { type: 'string', enum: ['main', 'follow_up'] },
+              followUpRound: followUpRoundResponseSchema,
+              ...answerFluencyProperties
+            }
+          }
+        }
+      }
+    }
+  ]
+} as const;
+
+const pronunciationResponseSchema = {
+  anyOf: [
+    { type: 'null' },
+    {
+      type: 'object',
+      required: ['assessedAnswers', 'flaggedWordCount', 'practiceWords'],
+      properties: {
+        assessedAnswers: { type: 'integer' },
+        flaggedWordCount: { type: 'integer' },
+        practiceWords: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['word', 'occurrences', 'confidence', 'questionNumbers', 'referenceAudioUrl'],
+            properties: {
+              word: { type: 'string' },
+              occurrences: { type: 'integer' },
+              confidence: { type: 'number' },
+              questionNumbers: { type: 'array', items: { type: 'integer' } },
+              referenceAudioUrl: { type: 'string' }
+            }
+          }
+        }
+      }
+    }
+  ]
+} as const;
+
+const rubricScoresResponseSchema = {
+  type: 'object',
+  required: RUBRIC_CRITERIA,
+  properties: Object.fromEntries(RUBRIC_CRITERIA.map((criterion) => [criterion, { type: 'number' }]))
+} as const;
+
+const scoresResponseSchema = {
+  anyOf: [
+    { type: 'null' },
+    {
+      type: 'object',
+      required: ['overall', 'byCriterion', 'turns'],
+      properties: {
+        overall: { type: 'number' },
+        byCriterion: rubricScoresResponseSchema,
+        turns: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['questionNumber', 'overall', 'criteria'],
+            properties: {
+              questionNumber: { type: 'integer' },
+              overall: { type: 'number' },
+              criteria: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  required: ['criterion', 'score', 'justification'],
+                  properties: {
+                    criterion: { type: 'string', enum: RUBRIC_CRITERIA },
+                    score: { type: 'integer', minimum: 1, maximum: 5 },
+                    justification: { type: 'string' }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  ]
+} as const;
 
-async function registerAndBuild(
-  app: FastifyInstance,
-  deps: {
-    createSession: CreateSessionUseCase;
-    getCurrentPrompt: GetCurrentPromptUseCase;
-    submitAnswer: SubmitAnswerUseCase;
-    getSessionResult: GetSessionResultUseCase;
-    synthesizeSpeech: SynthesizeSpeechUseCase;
+const proficiencyResponseSchema = {
+  anyOf: [
+    { type: 'null' },
+    {
+      type: 'object',
+      required: ['level', 'skills'],
+      properties: {
+        level: { type: 'string', enum: CEFR_LEVELS },
+        skills: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['skill', 'level', 'justification'],
+            properties: {
+              skill: { type: 'string', enum: PROFICIENCY_SKILLS },
+              level: { type: 'string', enum: CEFR_LEVELS },
+              justification: { type: 'string' }
+            }
+          }
+        }
+      }
+    }
+  ]
+} as const;
+
+const feedbackResponseSchema = {
+  type: 'object',
+  required: ['timingSummary', 'corrections', 'interviewTips'],
+  properties: {
+    timingSummary: timingSummaryResponseSchema,
+    fluency: fluencyResponseSchema,
+    pronunciation: pronunciationResponseSchema,
+    scores: scoresResponseSchema,
+    proficiency: proficiencyResponseSchema,
+    corrections: { type: 'array', items: correctionResponseSchema },
+    vocabulary: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['term', 'meaning', 'replaces', 'example', 'questionNumber'],
+        properties: {
+          term: { type: 'string' },
+          meaning: { type: 'string' },
+          replaces: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+          example: { type: 'string' },
+          questionNumber: { anyOf: [{ type: 'integer' }, { type: 'null' }] }
+        }
+      }
+    },
+    improvedAnswers: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: [
+          'questionNumber',
+          'kind',
+          'followUpRound',
+          'question',
+          'original',
+          'improved',
+          'changes',
+          'audioUrl'
+        ],
+        properties: {
+          questionNumber: { type: 'integer' },
+          kind: { type: 'string', enum: ['main', 'follow_up'] },
+          followUpRound: followUpRoundResponseSchema,
+          question: { type: 'string' },
+          original: { type: 'string' },
+          improved: { type: 'string' },
+          changes: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['type', 'text'],
+              properties: {
+                type: { type: 'string', enum: ['same', 'added', 'removed'] },
+                text: { type: 'string' }
+              }
+            }
+          },
+          audioUrl: { type: 'string' }
+        }
+      }
+    },
+    interviewTips: { type: 'array', items: { type: 'string' } },
+    attemptComparisons: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['questionNumber', 'attempts', 'improvement'],
+        properties: {
+          questionNumber: { type: 'integer' },
+          attempts: { type: 'integer' },
+          improvement: { type: 'string' }
+        }
+      }
+    },
+    partial: { type: 'boolean' }
   }
-): Promise<FastifyInstance> {
-  await app.register(swagger, {
-    openapi: {
-      openapi: '3.0.3',
-      info: {
-        title: 'Bot English Coach API',
-        version: '1.0.0',
-        description: 'Backend API for interview coaching sessions.'
+} as const;
+
+const feedbackGenerationResponseSchema = {
+  anyOf: [
+    { type: 'null' },
+    {
+      type: 'object',
+      required: ['state', 'attempts', 'lastError', 'queuedAt', 'nextAttemptAt', 'completesAs'],
+      properties: {
+        state: { type: 'string', enum: ['queued', 'running', 'failed'] },
+        attempts: { type: 'integer' },
+        lastError: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+        queuedAt: { type: 'string', format: 'date-time' },
+        nextAttemptAt: { anyOf: [{ type: 'string', format: 'date-time' }, { type: 'null' }] },
+        completesAs: { type: 'string', enum: ['completed', 'abandoned'] }
+      }
+    }
+  ]
+} as const;
+
+const sessionResultResponseSchema = {
+  type: 'object',
+  required: ['sessionId', 'status', 'result', 'feedbackGeneration'],
+  properties: {
+    sessionId: { type: 'string', format: 'uuid' },
+    status: { type: 'string', enum: SESSION_STATUSES },
+    result: { anyOf: [{ type: 'null' }, feedbackResponseSchema] },
+    feedbackGeneration: feedbackGenerationResponseSchema
+  }
+} as const;
+
+const correctionCountsResponseSchema = {
+  type: 'object',
+  required: [...CORRECTION_CATEGORIES],
+  properties: Object.fromEntries(CORRECTION_CATEGORIES.map((category) => [category, { type: 'integer' }]))
+};
+
+const progressResponseSchema = {
+  type: 'object',
+  required: ['completedSessions', 'weekly', 'byQuestionCategory', 'recurringMistakes', 'proficiency', 'trend'],
+  properties: {
+    completedSessions: { type: 'integer' },
+    weekly: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: [
+          'weekStart',
+          'sessions',
+          'totalTurns',
+          'avgResponseDelaySec',
+          'longPausesCount',
+          'correctionsPerTurn',
+          'correctionsByCategory'
+        ],
+        properties: {
+          weekStart: { type: 'string', format: 'date' },
+          sessions: { type: 'integer' },
+          totalTurns: { type: 'integer' },
+          avgResponseDelaySec: { type: 'number' },
+          longPausesCount: { type: 'integer' },
+          correctionsPerTurn: { type: 'number' },
+          correctionsByCategory: correctionCountsResponseSchema
+        }
+      }
+    },
+    byQuestionCategory: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['category', 'totalTurns', 'avgResponseDelaySec', 'longPausesCount', 'corrections'],
+        properties: {
+          category: { type: 'string', enum: QUESTION_CATEGORIES },
+          totalTurns: { type: 'integer' },
+          avgResponseDelaySec: { type: 'number' },
+          longPausesCount: { type: 'integer' },
+          corrections: { type: 'integer' }
+        }
+      }
+    },
+    recurringMistakes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['category', 'reason', 'occurrences', 'sessions', 'examples'],
+        properties: {
+          category: { type: 'string', enum: CORRECTION_CATEGORIES },
+          reason: { type: 'string' },
+          occurrences: { type: 'integer' },
+          sessions: { type: 'integer' },
+          examples: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['original', 'corrected'],
+              properties: {
+                original: { type: 'string' },
+                corrected: { type: 'string' }
+              }
+            }
+          }
+        }
+      }
+    },
+    proficiency: {
+      type: 'object',
+      required: ['currentLevel', 'history'],
+      properties: {
+        currentLevel: { anyOf: [{ type: 'string', enum: CEFR_LEVELS }, { type: 'null' }] },
+        history: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['sessionId', 'createdAt', 'level', 'skills'],
+            properties: {
+              sessionId: { type: 'string', format: 'uuid' },
+              createdAt: { type: 'string', format: 'date-time' },
+              level: { type: 'string', enum: CEFR_LEVELS },
+              skills: {
+                type: 'object',
+                required: PROFICIENCY_SKILLS,
+                properties: Object.fromEntries(
+                  PROFICIENCY_SKILLS.map((skill) => [skill, { type: 'string', enum: CEFR_LEVELS }])
+                )
+              }
+            }
+          }
+        }
+      }
+    },
+    trend: {
+      type: 'object',
+      required: ['avgResponseDelaySec', 'longPausesPerTurn', 'correctionsPerTurn', 'cefrLevels'],
+      properties: {
+        avgResponseDelaySec: { anyOf: [{ type: 'number' }, { type: 'null' }] },
+        longPausesPerTurn: { anyOf: [{ type: 'number' }, { type: 'null' }] },
+        correctionsPerTurn: { anyOf: [{ type: 'number' }, { type: 'null' }] },
+        cefrLevels: { anyOf: [{ type: 'integer' }, { type: 'null' }] }
+      }
+    }
+  }
+} as const;
+
+const notebookItemProperties = {
+  id: { type: 'string', format: 'uuid' },
+  kind: { type: 'string', enum: NOTEBOOK_ITEM_KINDS },
+  category: { anyOf: [{ type: 'string', enum: CORRECTION_CATEGORIES }, { type: 'null' }] },
+  original: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+  improved: { type: 'string' },
+  explanation: { type: 'string' },
+  occurrences: { type: 'integer' },
+  examples: {
+    type: 'array',
+    items: {
+      type: 'object',
+      required: ['sessionId', 'questionNumber', 'sentence', 'improved', 'seenAt'],
+      properties: {
+        sessionId: { type: 'string', format: 'uuid' },
+        questionNumber: { anyOf: [{ type: 'integer' }, { type: 'null' }] },
+        sentence: { type: 'string' },
+        improved: { type: 'string' },
+        seenAt: { type: 'string', format: 'date-time' }
+      }
+    }
+  },
+  review: {
+    type: 'object',
+    required: ['easeFactor', 'intervalDays', 'repetitions', 'dueAt', 'lastReviewedAt'],
+    properties: {
+      easeFactor: { type: 'number' },
+      intervalDays: { type: 'integer' },
+      repetitions: { type: 'integer' },
+      dueAt: { type: 'string', format: 'date-time' },
+      lastReviewedAt: { anyOf: [{ type: 'string', format: 'date-time' }, { type: 'null' }] }
+    }
+  },
+  createdAt: { type: 'string', format: 'date-time' },
+  updatedAt: { type: 'string', format: 'date-time' }
+} as const;
+
+const notebookItemRequired = [
+  'id',
+  'kind',
+  'category',
+  'original',
+  'improved',
+  'explanation',
+  'occurrences',
+  'examples',
+  'review',
+  'createdAt',
+  'updatedAt'
+];
+
+const notebookItemResponseSchema = {
+  type: 'object',
+  required: notebookItemRequired,
+  properties: notebookItemProperties
+} as const;
+
+const reviewCardResponseSchema = {
+  type: 'object',
+  required: [...notebookItemRequired, 'quiz'],
+  properties: {
+    ...notebookItemProperties,
+    quiz: {
+      type: 'object',
+      required: ['prompt', 'answer', 'hint'],
+      properties: {
+        prompt: { type: 'string' },
+        answer: { type: 'string' },
+        hint: { type: 'string' }
+      }
+    }
+  }
+} as const;
+
+const currentPromptResponseSchema = {
+  type: 'object',
+  required: ['sessionId', 'status', 'prompt', 'promptType', 'questionNumber', 'totalQuestions', 'turnNumber'],
+  properties: {
+    sessionId: { type: 'string', format: 'uuid' },
+    status: { type: 'string', enum: SESSION_STATUSES },
+    prompt: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+    promptType: { type: 'string', enum: ['question', 'follow_up', 'retry', 'completed'] },
+    questionNumber: {
+      type: 'integer',
+      description: 'Position among the planned questions, skipped ones included; for progress display.'
+    },
+    totalQuestions: { type: 'integer' },
+    turnNumber: {
+      anyOf: [{ type: 'integer' }, { type: 'null' }],
+      description:
+        'Number the answer is recorded under, as used by retry and by questionNumber in the result. ' +
+        'Skipped questions get none. Null once the session has ended.'
+    }
+  }
+} as const;
+
+const conflictResponseSchema = {
+  type: 'object',
+  required: ['error', 'currentPrompt'],
+  properties: {
+    error: { type: 'string' },
+    currentPrompt: { anyOf: [{ type: 'null' }, currentPromptResponseSchema] }
+  }
+} as const;
+
+const questionResponseSchema = {
+  type: 'object',
+  required: ['id', 'text', 'category', 'difficulty', 'tags', 'retired', 'createdAt', 'updatedAt'],
+  properties: {
+    id: { type: 'string' },
+    text: { type: 'string' },
+    category: { type: 'string', enum: QUESTION_CATEGORIES },
+    difficulty: { type: 'string', enum: QUESTION_DIFFICULTIES },
+    tags: { type: 'array', items: { type: 'string' } },
+    retired: { type: 'boolean' },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' }
+  }
+} as const;
+
+const timeLimitsResponseSchema = {
+  type: 'object',
+  description: 'Advisory pacing for clients to display and enforce; the server does not enforce it.',
+  required: ['answerSec', 'sessionMin'],
+  properties: {
+    answerSec: { type: 'integer', description: 'Suggested longest answer, in seconds.' },
+    sessionMin: { type: 'integer', description: 'Suggested session length, in minutes.' }
+  }
+} as const;
+
+const templateResponseSchema = {
+  type: 'object',
+  required: [
+    'id',
+    'name',
+    'description',
+    'questionMix',
+    'maxFollowUps',
+    'timeLimits',
+    'coachPersona'
+  ],
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    description: { type: 'string' },
+    questionMix: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['category', 'count'],
+        properties: {
+          category: { type: 'string', enum: QUESTION_CATEGORIES },
+          count: { type: 'integer' },
+          difficulties: { type: 'array', items: { type: 'string', enum: QUESTION_DIFFICULTIES } },
+          tags: { type: 'array', items: { type: 'string' } }
+        }
+      }
+    },
+    maxFollowUps: { type: 'integer' },
+    timeLimits: timeLimitsResponseSchema,
+    coachPersona: { type: 'string' }
+  }
+} as const;
+
+const questionBodyProperties = {
+  text: { type: 'string', minLength: 1, maxLength: 1000 },
+  category: { type: 'string', enum: QUESTION_CATEGORIES },
+  difficulty: { type: 'string', enum: QUESTION_DIFFICULTIES },
+  tags: { type: 'array', maxItems: 20, items: { type: 'string', minLength: 1, maxLength: 50 } }
+} as const;
+
+const adminKeyHeaderSchema = {
+  type: 'object',
+  required: ['x-admin-key'],
+  properties: {
+    'x-admin-key': { type: 'string' }
+  }
+} as const;
+
+const questionIdParamSchema = {
+  type: 'object',
+  required: ['questionId'],
+  properties: {
+    questionId: { type: 'string', minLength: 1 }
+  }
+} as const;
+
+const bearerSecurity = [{ bearerAuth: [] }];
+
+const idempotencyKeyHeadersSchema = {
+  type: 'object',
+  properties: {
+    'idempotency-key': { type: 'string', minLength: 1, maxLength: 255 }
+  }
+} as const;
+
+// Multipart bodies are parsed in the handler and not listed here, because a
+// content schema for them would be validated against the (empty) parsed body.
+const submitAnswerBodySchema = {
+  content: {
+    'application/json': {
+      schema: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          answerText: { type: 'string', minLength: 1 },
+          audioBase64: { type: 'string', minLength: 1 },
+          mimeType: { type: 'string', minLength: 1 },
+          responseDelaySec: {
+            type: 'number',
+            minimum: 0,
+            description: 'Deprecated and ignored: response delays are measured by the server.'
+          }
+        },
+        anyOf: [{ required: ['answerText'] }, { required: ['audioBase64'] }]
+      }
+    },
+    'audio/*': {
+      schema: { type: 'string', description: 'Raw audio bytes' }
+    }
+  }
+} as const;
+
+const submitAnswerDescription =
+  'Send the answer as JSON (`answerText` or `audioBase64`), as a raw `audio/*` body, or as ' +
+  '`multipart/form-data` with an `audio` file part and optional `answerText` and `mimeType` fields. ' +
+  'Audio must be wav, mp3, webm, ogg, mp4/m4a or flac, at most 25 MB and 300 seconds. Response delay ' +
+  'is measured by the server from when the prompt was served and from leading silence in PCM WAV audio. ' +
+  'The last answer returns 202 with status `generating_feedback`; poll GET /sessions/{sessionId}/result ' +
+  'for the final feedback.';
+
+const answerFeedbackResponseSchema = {
+  anyOf: [
+    { type: 'null' },
+    {
+      type: 'object',
+      required: ['corrections', 'improvedAnswer'],
+      properties: {
+        corrections: { type: 'array', items: correctionResponseSchema },
+        improvedAnswer: { type: 'string' }
+      }
+    }
+  ]
+} as const;
+
+const submitAnswerResponseSchema = {
+  type: 'object',
+  required: [
+    'sessionId',
+    'status',
+    'usedTranscript',
+    'interviewerMessage',
+    'nextPrompt',
+    'promptType'
+  ],
+  properties: {
+    sessionId: { type: 'string', format: 'uuid' },
+    status: { type: 'string', enum: SESSION_STATUSES },
+    usedTranscript: { type: 'string' },
+    interviewerMessage: { type: 'string' },
+    nextPrompt: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+    promptType: { type: 'string', enum: ['question', 'follow_up', 'completed'] },
+    answerFeedback: answerFeedbackResponseSchema,
+    nextQuestionSelection: {
+      anyOf: [
+        { type: 'null' },
+        {
+          type: 'object',
+          required: ['questionId', 'category', 'difficulty', 'rationale'],
+          properties: {
+            questionId: { type: 'string' },
+            category: { type: 'string', enum: QUESTION_CATEGORIES },
+            difficulty: { type: 'string', enum: QUESTION_DIFFICULTIES },
+            rationale: { type: 'string' }
+          }
+        }
+      ]
+    }
+  }
+} as const;
+
+const notebookItemIdParamSchema = {
+  type: 'object',
+  required: ['itemId'],
+  properties: {
+    itemId: { type: 'string', format: 'uuid' }
+  }
+} as const;
+
+const sessionIdParamSchema = {
+  type: 'object',
+  required: ['sessionId'],
+  properties: {
+    sessionId: { type: 'string', format: 'uuid' }
+  }
+} as const;
+
+const improvedAnswerParamSchema = {
+  type: 'object',
+  required: ['sessionId', 'answerNumber'],
+  properties: {
+    sessionId: { type: 'string', format: 'uuid' },
+    answerNumber: { type: 'integer', minimum: 1 }
+  }
+} as const;
+
+/** Synthesized clips never change for a given URL, so the owner's browser may keep them. */
+const AUDIO_CACHE_CONTROL = 'private, max-age=86400';
+
+export function buildServer(deps: ServerDependencies): Promise<FastifyInstance> {
+  const app = Fastify({
+    logger: {
+      serializers: {
+        // The default serializer with credentials masked: old voice clients may still put their key in the URL.
+        req: (request: FastifyRequest) => ({
+          method: request.method,
+          url: redactCredentials(request.url),
+          host: request.host,
+          remoteAddress: request.ip,
+          remotePort: request.socket?.remotePort
+        })
+      }
+    },
+    bodyLimit: 10 * 1024 * 1024
+  });
+
+  return registerAndBuild(app, deps);
+}
+
+async function registerAndBuild(app: FastifyInstance, deps: ServerDependencies): Promise<FastifyInstance> {
+  app.decorateRequest('user', null);
+
+  const requireUser = async (request: FastifyRequest) => {
+    const [scheme, headerKey] = (request.headers.authorization ?? '').split(' ');
+    const apiKey =
+      scheme?.toLowerCase() === 'bearer' && headerKey
+        ? headerKey
+        : request.ws
+          ? webSocketProtocolKey(request.headers['sec-websocket-protocol'])
+          : undefined;
+    if (!apiKey) {
+      throw new UnauthorizedError('Missing bearer API key.');
+    }
+    request.user = await deps.authenticateUser.execute({ apiKey });
+  };
+
+  const requireAdmin = async (request: FastifyRequest) => {
+    const provided = request.headers['x-admin-key'];
+    if (!deps.adminApiKey || typeof provided !== 'string' || !safeEqual(provided, deps.adminApiKey)) {
+      throw new UnauthorizedError('Admin API key is missing or invalid.');
+    }
+  };
+
+  await app.register(swagger, {
+    openapi: {
+      openapi: '3.0.3',
+      info: {
+        title: 'Bot English Coach API',
+        version: '1.0.0',
+        description: 'Backend API for interview coaching sessions.'
+      },
+      components: {
+        securitySchemes: {
+          bearerAuth: { type: 'http', scheme: 'bearer', description: 'User API key' }
+        }
+      }
+    }
+  });
+
+  await app.register(swaggerUi, {
+    routePrefix: '/docs'
+  });
+
+  await app.register(multipart, {
+    limits: { fileSize: MAX_ANSWER_AUDIO_BYTES, files: 1, fields: 10 }
+  });
+
+  app.addContentTypeParser(
+    /^audio\//,
+    { parseAs: 'buffer', bodyLimit: MAX_ANSWER_AUDIO_BYTES },
+    (_request, body, done) => done(null, body)
+  );
+
+  await app.register(websocket, {
+    options: {
+      maxPayload: 1024 * 1024,
+      // Only the marker is echoed back; the key that follows it must never be chosen as the protocol.
+      handleProtocols: (protocols) => (protocols.has(WS_AUTH_PROTOCOL) ? WS_AUTH_PROTOCOL : false)
+    }
+  });
+
+  app.get(
+    '/health',
+    {
+      schema: {
+        tags: ['System'],
+        summary: 'Health check',
+        response: {
+          200: {
+            type: 'object',
+            required: ['status'],
+            properties: {
+              status: { type: 'string', enum: ['ok'] }
+            }
+          }
+        }
+      }
+    },
+    async () => ({ status: 'ok' })
+  );
+
+  app.get(
+    '/openapi.json',
+    {
+      schema: {
+        tags: ['System'],
+        summary: 'Generated OpenAPI document',
+        response: {
+          200: { type: 'object' }
+        }
+      }
+    },
+    async () => app.swagger()
+  );
+
+  app.post(
+    '/sessions',
+    {
+      onRequest: requireUser,
+      schema: {
+        tags: ['Sessions'],
+        summary: 'Start an interview session',
+        security: bearerSecurity,
+        body: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            templateId: { type: 'string', minLength: 1 },
+            questionCount: { type: 'integer', minimum: 1, maximum: 10 },
+            allowFollowUps: {
+              type: 'boolean',
+              description: 'false turns follow-ups off; prefer maxFollowUps.'
+            },
+            maxFollowUps: {
+              type: 'integer',
+              minimum: 0,
+              maximum: MAX_FOLLOW_UP_ROUNDS,
+              description:
+                'Follow-up rounds the interviewer may ask per question. Defaults to the template value, else 1.'
+            },
+            interviewerPersona: {
+              type: 'string',
+              enum: INTERVIEWER_PERSONAS,
+              description: 'How the interviewer sounds and probes. Defaults to friendly.'
+            },
+            coachMode: { type: 'boolean', description: 'Give feedback on every answer as it is submitted.' },
+            adaptive: {
+              type: 'boolean',
+              description:
+                'Choose each next question from how the last answer went and your weak categories. ' +
+                'Cannot be combined with templateId, categories or difficulties.'
+            },
+            categories: {
+              type: 'array',
+              minItems: 1,
+              items: { type: 'string', enum: QUESTION_CATEGORIES }
+            },
+            difficulties: {
+              type: 'array',
+              minItems: 1,
+              items: { type: 'string', enum: QUESTION_DIFFICULTIES }
+            }
+          }
+        },
+        response: {
+          201: {
+            type: 'object',
+            required: [
+              'sessionId',
+              'status',
+              'templateId',
+              'timeLimits',
+              'allowFollowUps',
+              'maxFollowUps',
+              'interviewerPersona',
+              'coachMode',
+              'adaptive',
+              'questionNumber',
+              'totalQuestions',
+              'turnNumber',
+              'promptType',
+              'prompt'
+            ],
+            properties: {
+              sessionId: { type: 'string', format: 'uuid' },
+              status: { type: 'string', enum: ['in_progress'] },
+              templateId: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+              timeLimits: { anyOf: [{ type: 'null' }, timeLimitsResponseSchema] },
+              allowFollowUps: { type: 'boolean' },
+              maxFollowUps: { type: 'integer' },
+              interviewerPersona: { type: 'string', enum: INTERVIEWER_PERSONAS },
+              coachMode: { type: 'boolean' },
+              adaptive: { type: 'boolean' },
+              questionNumber: { type: 'integer' },
+              totalQuestions: { type: 'integer' },
+              turnNumber: { type: 'integer' },
+              promptType: { type: 'string', enum: ['question'] },
+              prompt: { type: 'string' }
+            }
+          },
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          404: errorResponseSchema,
+          500: errorResponseSchema
+        }
+      }
+    },
+    async (request, reply) => {
+      const parsed = createSessionSchema.safeParse(request.body || {});
+      if (!parsed.success) {
+        throw new ValidationError('Invalid request body for creating session.');
+      }
+
+      const session = await deps.createSession.execute({
+        userId: requestUserId(request),
+        templateId: parsed.data.templateId,
+        questionCount: parsed.data.questionCount,
+        allowFollowUps: parsed.data.allowFollowUps,
+        maxFollowUps: parsed.data.maxFollowUps,
+        interviewerPersona: parsed.data.interviewerPersona,
+        coachMode: parsed.data.coachMode,
+        adaptive: parsed.data.adaptive,
+        categories: parsed.data.categories,
+        difficulties: parsed.data.difficulties
+      });
+
+      return reply.status(201).send({
+        sessionId: session.id,
+        status: session.status,
+        templateId: session.templateId,
+        timeLimits: session.timeLimits,
+        allowFollowUps: session.maxFollowUps > 0,
+        maxFollowUps: session.maxFollowUps,
+        interviewerPersona: session.interviewerPersona,
+        coachMode: session.coachMode,
+        adaptive: session.adaptive,
+        questionNumber: 1,
+        totalQuestions: session.questions.length,
+        turnNumber: 1,
+        promptType: 'question',
+        prompt: session.questions[0].text
+      });
+    }
+  );
+
+  app.get(
+    '/templates',
+    {
+      schema: {
+        tags: ['Templates'],
+        summary: 'List interview templates',
+        response: {
+          200: {
+            type: 'object',
+            required: ['templates'],
+            properties: {
+              templates: { type: 'array', items: templateResponseSchema }
+            }
+          },
+          500: errorResponseSchema
+        }
+      }
+    },
+    async () => ({ templates: await deps.listTemplates.execute() })
+  );
+
+  app.get(
+    '/sessions/:sessionId/question',
+    {
+      onRequest: requireUser,
+      schema: {
+        tags: ['Sessions'],
+        summary: 'Get current prompt for a session',
+        security: bearerSecurity,
+        params: sessionIdParamSchema,
+        response: {
+          200: currentPromptResponseSchema,
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          404: errorResponseSchema,
+          500: errorResponseSchema
+        }
+      }
+    },
+    async (request) => {
+      const params = z.object({ sessionId: z.string().uuid() }).parse(request.params);
+      return deps.getCurrentPrompt.execute({
+        sessionId: params.sessionId,
+        userId: requestUserId(request)
+      });
+    }
+  );
+
+  app.post(
+    '/sessions/:sessionId/answer',
+    {
+      onRequest: requireUser,
+      schema: {
+        tags: ['Sessions'],
+        summary: 'Submit answer text/audio for current prompt',
+        description: submitAnswerDescription,
+        security: bearerSecurity,
+        params: sessionIdParamSchema,
+        headers: idempotencyKeyHeadersSchema,
+        body: submitAnswerBodySchema,
+        response: {
+          200: submitAnswerResponseSchema,
+          202: submitAnswerResponseSchema,
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          404: errorResponseSchema,
+          409: conflictResponseSchema,
+          413: errorResponseSchema,
+          415: errorResponseSchema,
+          500: errorResponseSchema,
+          503: upstreamUnavailableResponseSchema
+        }
+      }
+    },
+    async (request, reply) => {
+      const result = await deps.submitAnswer.execute(await parseSubmitAnswerInput(request), {
+        onPronunciationFailed: (error) => request.log.warn({ err: error }, 'Pronunciation assessment failed')
+      });
+      return reply.status(sessionStatusCode(result.status)).send(result);
+    }
+  );
+
+  app.post(
+    '/sessions/:sessionId/answer/stream',
+    {
+      onRequest: requireUser,
+      schema: {
+        tags: ['Sessions'],
+        summary: 'Submit answer and stream the interviewer reply as Server-Sent Events',
+        description:
+          'Same inputs and idempotency rules as POST /sessions/{sessionId}/answer. Emits `transcript`, ' +
+          '`reply_delta` (incremental interviewer text), `status` (`generating_feedback`), `reply`, ' +
+          '`answer_feedback` (coach mode), `prompt` and `done` with the full submission result. The final ' +
+          'feedback is generated in the background; poll GET /sessions/{sessionId}/result for it. ' +
+          'Failures after the stream has started are sent as an `error` event with `statusCode`.',
+        security: bearerSecurity,
+        params: sessionIdParamSchema,
+        headers: idempotencyKeyHeadersSchema,
+        body: submitAnswerBodySchema,
+        produces: ['text/event-stream'],
+        response: {
+          200: {
+            description: 'text/event-stream of submission events',
+            type: 'string'
+          },
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          404: errorResponseSchema,
+          413: errorResponseSchema,
+          415: errorResponseSchema,
+          500: errorResponseSchema
+        }
+      }
+    },
+    async (request, reply) => {
+      const input = await parseSubmitAnswerInput(request);
+      // Resolve unknown/foreign sessions with a plain 404 before the stream is opened. This must not
+      // serve the prompt: that would restart a paused session's clock and measure the answer as instant.
+      await deps.submitAnswer.assertAccess({ sessionId: input.sessionId, userId: input.userId });
+
+      reply.hijack();
+      reply.raw.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive'
+      });
+      const send = (event: string, data: unknown) => {
+        reply.raw.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      let transcriptSent = false;
+      try {
+        const result = await deps.submitAnswer.execute(input, {
+          onTranscript: (text) => {
+            transcriptSent = true;
+            send('transcript', { text });
+          },
+          onReplyDelta: (text) => send('reply_delta', { text }),
+          onFeedbackStarted: () => send('status', { phase: 'generating_feedback' }),
+          onPronunciationFailed: (error) => request.log.warn({ err: error }, 'Pronunciation assessment failed')
+        });
+
+        // Idempotent replays return the stored result without running the pipeline.
+        if (!transcriptSent) {
+          send('transcript', { text: result.usedTranscript });
+        }
+        send('reply', { text: result.interviewerMessage });
+        if (result.answerFeedback) {
+          send('answer_feedback', result.answerFeedback);
+        }
+        send('prompt', {
+          status: result.status,
+          nextPrompt: result.nextPrompt,
+          promptType: result.promptType
+        });
+        send('done', result);
+      } catch (error) {
+        const { statusCode, body } = await toErrorResponse(error as FastifyError, request);
+        send('error', { ...body, statusCode });
+      } finally {
+        reply.raw.end();
+      }
+    }
+  );
+
+  app.post(
+    '/sessions/:sessionId/retry',
+    {
+      onRequest: requireUser,
+      schema: {
+        tags: ['Sessions'],
+        summary: 'Re-answer an earlier question',
+        description:
+          'Serves an answered question again (the latest one by default). The next submitted answer is ' +
+          'stored as another attempt on that turn and the interview then resumes. A completed session ' +
+          'is reopened, and its feedback is regenerated in the background to compare the attempts.',
+        security: bearerSecurity,
+        params: sessionIdParamSchema,
+        body: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            questionNumber: {
+              type: 'integer',
+              minimum: 1,
+              description: 'The turnNumber of an answered question; skipped questions are not counted.'
+            }
+          }
+        },
+        response: {
+          200: currentPromptResponseSchema,
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          404: errorResponseSchema,
+          409: conflictResponseSchema,
+          500: errorResponseSchema
+        }
+      }
+    },
+    async (request) => {
+      const params = z.object({ sessionId: z.string().uuid() }).parse(request.params);
+      const parsed = retryQuestionSchema.safeParse(request.body || {});
+      if (!parsed.success) {
+        throw new ValidationError('Invalid request body for retrying a question.');
+      }
+
+      return deps.retryQuestion.execute({
+        sessionId: params.sessionId,
+        userId: requestUserId(request),
+        questionNumber: parsed.data.questionNumber
+      });
+    }
+  );
+
+  app.post(
+    '/sessions/:sessionId/skip',
+    {
+      onRequest: requireUser,
+      schema: {
+        tags: ['Sessions'],
+        summary: 'Skip the current question',
+        description:
+          'Moves past the pending prompt without answering it: a retry is dropped, a follow-up is left ' +
+          'unanswered, and a main question is recorded as skipped. Skipping the last question returns 202 ' +
+          'and queues partial feedback, or abandons the session if nothing was answered.',
+        security: bearerSecurity,
+        params: sessionIdParamSchema,
+        response: {
+          200: currentPromptResponseSchema,
+          202: currentPromptResponseSchema,
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          404: errorResponseSchema,
+          409: conflictResponseSchema,
+          500: errorResponseSchema
+        }
+      }
+    },
+    async (request, reply) => {
+      const params = z.object({ sessionId: z.string().uuid() }).parse(request.params);
+      const result = await deps.skipQuestion.execute({
+        sessionId: params.sessionId,
+        userId: requestUserId(request)
+      });
+      return reply.status(sessionStatusCode(result.status)).send(result);
+    }
+  );
+
+  app.post(
+    '/sessions/:sessionId/pause',
+    {
+      onRequest: requireUser,
+      schema: {
+        tags: ['Sessions'],
+        summary: 'Pause the response clock',
+        description:
+          'Stops timing the pending prompt so a break does not count as hesitation. Fetching the ' +
+          'question again resumes the session and restarts the clock.',
+        security: bearerSecurity,
+        params: sessionIdParamSchema,
+        response: {
+          200: currentPromptResponseSchema,
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          404: errorResponseSchema,
+          409: conflictResponseSchema,
+          500: errorResponseSchema
+        }
+      }
+    },
+    async (request) => {
+      const params = z.object({ sessionId: z.string().uuid() }).parse(request.params);
+      return deps.pauseSession.execute({
+        sessionId: params.sessionId,
+        userId: requestUserId(request)
+      });
+    }
+  );
+
+  app.post(
+    '/sessions/:sessionId/end',
+    {
+      onRequest: requireUser,
+      schema: {
+        tags: ['Sessions'],
+        summary: 'End the interview early',
+        description:
+          'Abandons the session. With answered turns it returns 202 and queues partial feedback over ' +
+          'them; the session is abandoned once the feedback is ready. With nothing answered it is ' +
+          'abandoned at once with a null result.',
+        security: bearerSecurity,
+        params: sessionIdParamSchema,
+        response: {
+          200: sessionResultResponseSchema,
+          202: sessionResultResponseSchema,
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          404: errorResponseSchema,
+          409: conflictResponseSchema,
+          500: errorResponseSchema
+        }
+      }
+    },
+    async (request, reply) => {
+      const params = z.object({ sessionId: z.string().uuid() }).parse(request.params);
+      const result = await deps.endSession.execute({
+        sessionId: params.sessionId,
+        userId: requestUserId(request)
+      });
+      return reply.status(sessionStatusCode(result.status)).send(result);
+    }
+  );
+
+  app.get(
+    '/sessions/:sessionId/voice',
+    {
+      websocket: true,
+      onRequest: requireUser,
+      schema: {
+        tags: ['Sessions'],
+        summary: 'Real-time voice interview over WebSocket',
+        // @fastify/websocket hides WebSocket routes from the OpenAPI document; see README for the protocol.
+        security: bearerSecurity,
+        params: sessionIdParamSchema
+      }
+    },
+    (socket, request) => {
+      const params = z.object({ sessionId: z.string().uuid() }).parse(request.params);
+      const voiceSession = new VoiceSocketSession(
+        socket,
+        { sessionId: params.sessionId, userId: requestUserId(request) },
+        {
+          getCurrentPrompt: deps.getCurrentPrompt,
+          submitAnswer: deps.submitAnswer,
+          synthesizeSpeech: deps.synthesizeSpeech,
+          endOfAnswerSilenceMs: deps.voiceEndOfAnswerSilenceMs ?? 1500,
+          toErrorResponse: (error) => toErrorResponse(error as FastifyError, request),
+          onPronunciationFailed: (error) => request.log.warn({ err: error }, 'Pronunciation assessment failed')
+        }
+      );
+      void voiceSession.start();
+    }
+  );
+
+  app.get(
+    '/sessions/:sessionId/result',
+    {
+      onRequest: requireUser,
+      schema: {
+        tags: ['Sessions'],
+        summary: 'Get final session result/feedback',
+        description:
+          'While the status is `generating_feedback`, `feedbackGeneration` reports the background job: ' +
+          '`queued` (with `nextAttemptAt` when a retry is scheduled after an upstream outage), `running` ' +
+          'or `failed` (with `lastError`). A failed job can be queued again with ' +
+          'POST /sessions/{sessionId}/feedback/retry.',
+        security: bearerSecurity,
+        params: sessionIdParamSchema,
+        response: {
+          200: sessionResultResponseSchema,
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          404: errorResponseSchema,
+          500: errorResponseSchema
+        }
+      }
+    },
+    async (request) => {
+      const params = z.object({ sessionId: z.string().uuid() }).parse(request.params);
+      return deps.getSessionResult.execute({
+        sessionId: params.sessionId,
+        userId: requestUserId(request)
+      });
+    }
+  );
+
+  app.post(
+    '/sessions/:sessionId/feedback/retry',
+    {
+      onRequest: requireUser,
+      schema: {
+        tags: ['Sessions'],
+        summary: 'Retry failed feedback generation',
+        description: 'Queues the feedback job of a session whose generation failed, with a fresh set of attempts.',
+        security: bearerSecurity,
+        params: sessionIdParamSchema,
+        response: {
+          202: sessionResultResponseSchema,
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          404: errorResponseSchema,
+          409: conflictResponseSchema,
+          500: errorResponseSchema
+        }
+      }
+    },
+    async (request, reply) => {
+      const params = z.object({ sessionId: z.string().uuid() }).parse(request.params);
+      const result = await deps.retryFeedback.execute({
+        sessionId: params.sessionId,
+        userId: requestUserId(request)
+      });
+      return reply.status(202).send(result);
+    }
+  );
+
+  app.get(
+    '/sessions/:sessionId/improved-answers/:answerNumber/audio',
+    {
+      onRequest: requireUser,
+      schema: {
+        tags: ['Sessions'],
+        summary: 'Speak an improved answer',
+        description: 'Target of `improvedAnswers[].audioUrl`; `answerNumber` is the 1-based position in that list.',
+        security: bearerSecurity,
+        params: improvedAnswerParamSchema,
+        response: {
+          200: {
+            type: 'string',
+            description: 'MP3 audio binary'
+          },
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          404: errorResponseSchema,
+          500: errorResponseSchema,
+          503: upstreamUnavailableResponseSchema
+        }
+      }
+    },
+    async (request, reply) => {
+      const params = z
+        .object({ sessionId: z.string().uuid(), answerNumber: z.coerce.number().int().min(1) })
+        .parse(request.params);
+      const result = await deps.speakImprovedAnswer.execute({
+        sessionId: params.sessionId,
+        userId: requestUserId(request),
+        answerNumber: params.answerNumber
+      });
+      return reply
+        .header('Content-Type', result.mimeType)
+        .header('Cache-Control', AUDIO_CACHE_CONTROL)
+        .send(result.audio);
+    }
+  );
+
+  app.post(
+    '/tts',
+    {
+      onRequest: requireUser,
+      schema: {
+        tags: ['TTS'],
+        summary: 'Synthesize speech from text',
+        security: bearerSecurity,
+        body: {
+          type: 'object',
+          required: ['text'],
+          additionalProperties: false,
+          properties: {
+            text: { type: 'string', minLength: 1, maxLength: 5000 }
+          }
+        },
+        response: {
+          200: {
+            type: 'string',
+            description: 'MP3 audio binary'
+          },
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          500: errorResponseSchema,
+          503: upstreamUnavailableResponseSchema
+        }
+      }
+    },
+    async (request, reply) => {
+      const parsed = synthesizeSpeechSchema.safeParse(request.body);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid request body for TTS.');
+      }
+
+      const result = await deps.synthesizeSpeech.execute({ text: parsed.data.text });
+      return reply.header('Content-Type', result.mimeType).send(result.audio);
+    }
+  );
+
+  app.get(
+    '/tts',
+    {
+      onRequest: requireUser,
+      schema: {
+        tags: ['TTS'],
+        summary: 'Synthesize speech from a query string',
+        description: 'Linkable form of POST /tts, used for pronunciation reference audio.',
+        security: bearerSecurity,
+        querystring: {
+          type: 'object',
+          required: ['text'],
+          properties: {
+            text: { type: 'string', minLength: 1, maxLength: 5000 }
+          }
+        },
+        response: {
+          200: {
+            type: 'string',
+            description: 'MP3 audio binary'
+          },
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          500: errorResponseSchema,
+          503: upstreamUnavailableResponseSchema
+        }
+      }
+    },
+    async (request, reply) => {
+      const parsed = synthesizeSpeechSchema.safeParse(request.query);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid query string for TTS.');
       }
-    }
-  });
 
-  await app.register(swaggerUi, {
-    routePrefix: '/docs'
-  });
+      const result = await deps.synthesizeSpeech.execute({ text: parsed.data.text });
+      return reply
+        .header('Content-Type', result.mimeType)
+        .header('Cache-Control', AUDIO_CACHE_CONTROL)
+        .send(result.audio);
+    }
+  );
 
   app.get(
-    '/health',
+    '/me/sessions',
     {
+      onRequest: requireUser,
       schema: {
-        tags: ['System'],
-        summary: 'Health check',
+        tags: ['Me'],
+        summary: 'List my interview sessions, newest first',
+        security: bearerSecurity,
+        querystring: {
+          type: 'object',
+          properties: {
+            status: { type: 'string', enum: SESSION_STATUSES },
+            limit: { type: 'integer', minimum: 1, maximum: 50 },
+            offset: { type: 'integer', minimum: 0 }
+          }
+        },
         response: {
           200: {
             type: 'object',
-            required: ['status'],
+            required: ['sessions', 'total', 'limit', 'offset'],
             properties: {
-              status: { type: 'string', enum: ['ok'] }
+              sessions: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  required: [
+                    'sessionId',
+                    'createdAt',
+                    'status',
+                    'templateId',
+                    'answeredQuestions',
+                    'totalQuestions',
+                    'hasResult',
+                    'overallScore',
+                    'cefrLevel'
+                  ],
+                  properties: {
+                    sessionId: { type: 'string', format: 'uuid' },
+                    createdAt: { type: 'string', format: 'date-time' },
+                    status: { type: 'string', enum: SESSION_STATUSES },
+                    templateId: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+                    answeredQuestions: { type: 'integer' },
+                    totalQuestions: { type: 'integer' },
+                    hasResult: { type: 'boolean' },
+                    overallScore: { anyOf: [{ type: 'number' }, { type: 'null' }] },
+                    cefrLevel: { anyOf: [{ type: 'string', enum: CEFR_LEVELS }, { type: 'null' }] }
+                  }
+                }
+              },
+              total: { type: 'integer' },
+              limit: { type: 'integer' },
+              offset: { type: 'integer' }
             }
-          }
+          },
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          500: errorResponseSchema
         }
       }
     },
-    async () => ({ status: 'ok' })
+    async (request) => {
+      const query = listUserSessionsQuerySchema.parse(request.query);
+      return deps.listUserSessions.execute({ userId: requestUserId(request), ...query });
+    }
   );
 
   app.get(
-    '/openapi.json',
+    '/me/progress',
     {
+      onRequest: requireUser,
       schema: {
-        tags: ['System'],
-        summary: 'Generated OpenAPI document',
+        tags: ['Me'],
+        summary: 'Timing and correction trends across my completed sessions',
+        security: bearerSecurity,
+        querystring: {
+          type: 'object',
+          properties: {
+            weeks: { type: 'integer', minimum: 1, maximum: 52 }
+          }
+        },
         response: {
-          200: { type: 'object' }
+          200: progressResponseSchema,
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          500: errorResponseSchema
         }
       }
     },
-    async () => app.swagger()
+    async (request) => {
+      const query = progressQuerySchema.parse(request.query);
+      return deps.getProgress.execute({ userId: requestUserId(request), weeks: query.weeks });
+    }
   );
 
-  app.post(
-    '/sessions',
+  app.get(
+    '/me/notebook',
     {
+      onRequest: requireUser,
       schema: {
-        tags: ['Sessions'],
-        summary: 'Start an interview session',
-        body: {
+        tags: ['Me'],
+        summary: 'List my notebook of mistakes and vocabulary, most recently updated first',
+        security: bearerSecurity,
+        querystring: {
           type: 'object',
-          additionalProperties: false,
           properties: {
-            questionCount: { type: 'integer', minimum: 1, maximum: 10 },
-            allowFollowUps: { type: 'boolean' }
+            kind: { type: 'string', enum: NOTEBOOK_ITEM_KINDS },
+            limit: { type: 'integer', minimum: 1, maximum: 50 },
+            offset: { type: 'integer', minimum: 0 }
           }
         },
         response: {
-          201: {
+          200: {
             type: 'object',
-            required: [
-              'sessionId',
-              'status',
-              'allowFollowUps',
-              'questionNumber',
-              'totalQuestions',
-              'promptType',
-              'prompt'
-            ],
+            required: ['items', 'total', 'limit', 'offset'],
             properties: {
-              sessionId: { type: 'string', format: 'uuid' },
-              status: { type: 'string', enum: ['in_progress'] },
-              allowFollowUps: { type: 'boolean' },
-              questionNumber: { type: 'integer' },
-              totalQuestions: { type: 'integer' },
-              promptType: { type: 'string', enum: ['question'] },
-              prompt: { type: 'string' }
+              items: { type: 'array', items: notebookItemResponseSchema },
+              total: { type: 'integer' },
+              limit: { type: 'integer' },
+              offset: { type: 'integer' }
             }
           },
           400: errorResponseSchema,
+          401: errorResponseSchema,
           500: errorResponseSchema
         }
       }
     },
-    async (request, reply) => {
-      const parsed = createSessionSchema.safeParse(request.body || {});
-      if (!parsed.success) {
-        throw new ValidationError('Invalid request body for creating session.');
-      }
-
-      const session = await deps.createSession.execute({
-        questionCount: parsed.data.questionCount,
-        allowFollowUps: parsed.data.allowFollowUps
-      });
-
-      return reply.status(201).send({
-        sessionId: session.id,
-        status: session.status,
-        allowFollowUps: session.allowFollowUps,
-        questionNumber: 1,
-        totalQuestions: session.questions.length,
-        promptType: 'question',
-        prompt: session.questions[0]
-      });
+    async (request) => {
+      const query = listNotebookQuerySchema.parse(request.query);
+      return deps.listNotebook.execute({ userId: requestUserId(request), ...query });
     }
   );
 
   app.get(
-    '/sessions/:sessionId/question',
+    '/me/notebook/review',
     {
+      onRequest: requireUser,
       schema: {
-        tags: ['Sessions'],
-        summary: 'Get current prompt for a session',
-        params: sessionIdParamSchema,
+        tags: ['Me'],
+        summary: 'Notebook items due for review, each with a short quiz',
+        security: bearerSecurity,
+        querystring: {
+          type: 'object',
+          properties: {
+            limit: { type: 'integer', minimum: 1, maximum: 50 }
+          }
+        },
         response: {
           200: {
             type: 'object',
-            required: [
-              'sessionId',
-              'status',
-              'prompt',
-              'promptType',
-              'questionNumber',
-              'totalQuestions'
-            ],
+            required: ['items', 'total'],
             properties: {
-              sessionId: { type: 'string', format: 'uuid' },
-              status: { type: 'string', enum: ['in_progress', 'completed'] },
-              prompt: { anyOf: [{ type: 'string' }, { type: 'null' }] },
-              promptType: { type: 'string', enum: ['question', 'follow_up', 'completed'] },
-              questionNumber: { type: 'integer' },
-              totalQuestions: { type: 'integer' }
+              items: { type: 'array', items: reviewCardResponseSchema },
+              total: { type: 'integer' }
             }
           },
           400: errorResponseSchema,
+          401: errorResponseSchema,
+          500: errorResponseSchema
+        }
+      }
+    },
+    async (request) => {
+      const query = reviewQueueQuerySchema.parse(request.query);
+      return deps.getReviewQueue.execute({ userId: requestUserId(request), limit: query.limit });
+    }
+  );
+
+  app.post(
+    '/me/notebook/:itemId/review',
+    {
+      onRequest: requireUser,
+      schema: {
+        tags: ['Me'],
+        summary: 'Grade my recall of a notebook item (0-5) and schedule its next review',
+        security: bearerSecurity,
+        params: notebookItemIdParamSchema,
+        body: {
+          type: 'object',
+          required: ['quality'],
+          additionalProperties: false,
+          properties: {
+            quality: { type: 'integer', minimum: 0, maximum: 5 }
+          }
+        },
+        response: {
+          200: notebookItemResponseSchema,
+          400: errorResponseSchema,
+          401: errorResponseSchema,
           404: errorResponseSchema,
           500: errorResponseSchema
         }
       }
     },
     async (request) => {
-      const params = z.object({ sessionId: z.string().uuid() }).parse(request.params);
-      return deps.getCurrentPrompt.execute({ sessionId: params.sessionId });
+      const params = z.object({ itemId: z.string().uuid() }).parse(request.params);
+      const parsed = reviewNotebookItemSchema.safeParse(request.body);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid request body for reviewing a notebook item.');
+      }
+
+      return deps.reviewNotebookItem.execute({
+        userId: requestUserId(request),
+        itemId: params.itemId,
+        quality: parsed.data.quality
+      });
     }
   );
 
   app.post(
-    '/sessions/:sessionId/answer',
+    '/admin/users',
     {
+      onRequest: requireAdmin,
       schema: {
-        tags: ['Sessions'],
-        summary: 'Submit answer text/audio for current prompt',
-        params: sessionIdParamSchema,
+        tags: ['Admin'],
+        summary: 'Create a user and issue their API key',
+        headers: adminKeyHeaderSchema,
         body: {
           type: 'object',
+          required: ['name'],
           additionalProperties: false,
           properties: {
-            answerText: { type: 'string', minLength: 1 },
-            audioBase64: { type: 'string', minLength: 1 },
-            mimeType: { type: 'string', minLength: 1 },
-            responseDelaySec: { type: 'number', minimum: 0 }
-          },
-          anyOf: [{ required: ['answerText'] }, { required: ['audioBase64'] }]
+            name: { type: 'string', minLength: 1, maxLength: 100 }
+          }
         },
         response: {
-          200: {
+          201: {
             type: 'object',
-            required: [
-              'sessionId',
-              'status',
-              'usedTranscript',
-              'interviewerMessage',
-              'nextPrompt',
-              'promptType',
-              'result'
-            ],
+            required: ['user', 'apiKey'],
             properties: {
-              sessionId: { type: 'string', format: 'uuid' },
-              status: { type: 'string', enum: ['in_progress', 'completed'] },
-              usedTranscript: { type: 'string' },
-              interviewerMessage: { type: 'string' },
-              nextPrompt: { anyOf: [{ type: 'string' }, { type: 'null' }] },
-              promptType: { type: 'string', enum: ['question', 'follow_up', 'completed'] },
-              result: {
-                anyOf: [
-                  { type: 'null' },
-                  {
-                    type: 'object',
-                    required: ['timingSummary', 'corrections', 'improvedBestAnswer', 'interviewTips'],
-                    properties: {
-                      timingSummary: {
-                        type: 'object',
-                        required: ['avgResponseDelaySec', 'longPausesCount', 'totalTurns'],
-                        properties: {
-                          avgResponseDelaySec: { type: 'number' },
-                          longPausesCount: { type: 'integer' },
-                          totalTurns: { type: 'integer' }
-                        }
-                      },
-                      corrections: {
-                        type: 'array',
-                        items: {
-                          type: 'object',
-                          required: ['original', 'corrected', 'reason'],
-                          properties: {
-                            original: { type: 'string' },
-                            corrected: { type: 'string' },
-                            reason: { type: 'string' }
-                          }
-                        }
-                      },
-                      improvedBestAnswer: {
-                        type: 'object',
-                        required: ['question', 'answer'],
-                        properties: {
-                          question: { type: 'string' },
-                          answer: { type: 'string' }
-                        }
-                      },
-                      interviewTips: {
-                        type: 'array',
-                        items: { type: 'string' }
-                      }
-                    }
-                  }
-                ]
-              }
+              user: {
+                type: 'object',
+                required: ['id', 'name', 'createdAt'],
+                properties: {
+                  id: { type: 'string', format: 'uuid' },
+                  name: { type: 'string' },
+                  createdAt: { type: 'string', format: 'date-time' }
+                }
+              },
+              apiKey: { type: 'string' }
             }
           },
           400: errorResponseSchema,
-          404: errorResponseSchema,
+          401: errorResponseSchema,
           500: errorResponseSchema
         }
       }
     },
-    async (request) => {
-      const params = z.object({ sessionId: z.string().uuid() }).parse(request.params);
-      const parsed = submitAnswerSchema.safeParse(request.body || {});
-
+    async (request, reply) => {
+      const parsed = createUserSchema.safeParse(request.body);
       if (!parsed.success) {
-        throw new ValidationError('Invalid request body for answer submission.');
-      }
-
-      if (!parsed.data.answerText && !parsed.data.audioBase64) {
-        throw new ValidationError('Provide either answerText or audioBase64.');
+        throw new ValidationError('Invalid request body for creating user.');
       }
 
-      return deps.submitAnswer.execute({
-        sessionId: params.sessionId,
-        answerText: parsed.data.answerText,
-        audioBase64: parsed.data.audioBase64,
-        mimeType: parsed.data.mimeType,
-        responseDelaySec: parsed.data.responseDelaySec
-      });
+      const created = await deps.createUser.execute(parsed.data);
+      return reply.status(201).send(created);
     }
   );
 
   app.get(
-    '/sessions/:sessionId/result',
+    '/admin/questions',
     {
+      onRequest: requireAdmin,
       schema: {
-        tags: ['Sessions'],
-        summary: 'Get final session result/feedback',
-        params: sessionIdParamSchema,
+        tags: ['Admin'],
+        summary: 'List questions in the bank',
+        headers: adminKeyHeaderSchema,
+        querystring: {
+          type: 'object',
+          properties: {
+            category: { type: 'string', enum: QUESTION_CATEGORIES },
+            difficulty: { type: 'string', enum: QUESTION_DIFFICULTIES },
+            includeRetired: { type: 'string', enum: ['true', 'false'] }
+          }
+        },
         response: {
           200: {
             type: 'object',
-            required: ['sessionId', 'status', 'result'],
+            required: ['questions'],
             properties: {
-              sessionId: { type: 'string', format: 'uuid' },
-              status: { type: 'string', enum: ['in_progress', 'completed'] },
-              result: {
-                anyOf: [
-                  { type: 'null' },
-                  {
-                    type: 'object',
-                    required: ['timingSummary', 'corrections', 'improvedBestAnswer', 'interviewTips'],
-                    properties: {
-                      timingSummary: {
-                        type: 'object',
-                        required: ['avgResponseDelaySec', 'longPausesCount', 'totalTurns'],
-                        properties: {
-                          avgResponseDelaySec: { type: 'number' },
-                          longPausesCount: { type: 'integer' },
-                          totalTurns: { type: 'integer' }
-                        }
-                      },
-                      corrections: {
-                        type: 'array',
-                        items: {
-                          type: 'object',
-                          required: ['original', 'corrected', 'reason'],
-                          properties: {
-                            original: { type: 'string' },
-                            corrected: { type: 'string' },
-                            reason: { type: 'string' }
-                          }
-                        }
-                      },
-                      improvedBestAnswer: {
-                        type: 'object',
-                        required: ['question', 'answer'],
-                        properties: {
-                          question: { type: 'string' },
-                          answer: { type: 'string' }
-                        }
-                      },
-                      interviewTips: {
-                        type: 'array',
-                        items: { type: 'string' }
-                      }
-                    }
-                  }
-                ]
-              }
+              questions: { type: 'array', items: questionResponseSchema }
             }
           },
           400: errorResponseSchema,
-          404: errorResponseSchema,
+          401: errorResponseSchema,
           500: errorResponseSchema
         }
       }
     },
     async (request) => {
-      const params = z.object({ sessionId: z.string().uuid() }).parse(request.params);
-      return deps.getSessionResult.execute({ sessionId: params.sessionId });
+      const query = listQuestionsQuerySchema.parse(request.query);
+      const questions = await deps.listQuestions.execute({
+        categories: query.category ? [query.category] : undefined,
+        difficulties: query.difficulty ? [query.difficulty] : undefined,
+        includeRetired: query.includeRetired
+      });
+      return { questions };
     }
   );
 
   app.post(
-    '/tts',
+    '/admin/questions',
     {
+      onRequest: requireAdmin,
       schema: {
-        tags: ['TTS'],
-        summary: 'Synthesize speech from text',
+        tags: ['Admin'],
+        summary: 'Add a question to the bank',
+        headers: adminKeyHeaderSchema,
         body: {
           type: 'object',
-          required: ['text'],
+          required: ['text', 'category', 'difficulty'],
           additionalProperties: false,
-          properties: {
-            text: { type: 'string', minLength: 1, maxLength: 5000 }
-          }
+          properties: questionBodyProperties
         },
         response: {
-          200: {
-            type: 'string',
-            description: 'MP3 audio binary'
-          },
+          201: questionResponseSchema,
           400: errorResponseSchema,
+          401: errorResponseSchema,
           500: errorResponseSchema
         }
       }
     },
     async (request, reply) => {
-      const parsed = synthesizeSpeechSchema.safeParse(request.body);
+      const parsed = createQuestionSchema.safeParse(request.body);
       if (!parsed.success) {
-        throw new ValidationError('Invalid request body for TTS.');
+        throw new ValidationError('Invalid request body for creating question.');
       }
 
-      const result = await deps.synthesizeSpeech.execute({ text: parsed.data.text });
-      return reply.header('Content-Type', result.mimeType).send(result.audio);
+      const question = await deps.createQuestion.execute(parsed.data);
+      return reply.status(201).send(question);
+    }
+  );
+
+  app.patch(
+    '/admin/questions/:questionId',
+    {
+      onRequest: requireAdmin,
+      schema: {
+        tags: ['Admin'],
+        summary: 'Update a question in the bank',
+        headers: adminKeyHeaderSchema,
+        params: questionIdParamSchema,
+        body: {
+          type: 'object',
+          additionalProperties: false,
+          properties: questionBodyProperties
+        },
+        response: {
+          200: questionResponseSchema,
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          404: errorResponseSchema,
+          500: errorResponseSchema
+        }
+      }
+    },
+    async (request) => {
+      const params = z.object({ questionId: z.string().min(1) }).parse(request.params);
+      const parsed = updateQuestionSchema.safeParse(request.body || {});
+      if (!parsed.success) {
+        throw new ValidationError('Invalid request body for updating question.');
+      }
+
+      return deps.updateQuestion.execute({ questionId: params.questionId, ...parsed.data });
+    }
+  );
+
+  app.post(
+    '/admin/questions/:questionId/retire',
+    {
+      onRequest: requireAdmin,
+      schema: {
+        tags: ['Admin'],
+        summary: 'Retire a question so new sessions no longer pick it',
+        headers: adminKeyHeaderSchema,
+        params: questionIdParamSchema,
+        response: {
+          200: questionResponseSchema,
+          401: errorResponseSchema,
+          404: errorResponseSchema,
+          500: errorResponseSchema
+        }
+      }
+    },
+    async (request) => {
+      const params = z.object({ questionId: z.string().min(1) }).parse(request.params);
+      return deps.retireQuestion.execute({ questionId: params.questionId });
     }
   );
 
-  app.setErrorHandler((error, request, reply) => {
-    if (error instanceof z.ZodError || error instanceof ValidationError) {
-      reply.status(400).send({ error: error.message });
-      return;
+  async function toErrorResponse(
+    error: FastifyError,
+    request: FastifyRequest
+  ): Promise<{ statusCode: number; body: Record<string, unknown> }> {
+    if (error instanceof z.ZodError || error instanceof ValidationError || error.validation) {
+      return { statusCode: 400, body: { error: error.message } };
+    }
+
+    if (error instanceof UnauthorizedError) {
+      return { statusCode: 401, body: { error: error.message } };
     }
 
     if (error instanceof NotFoundError) {
-      reply.status(404).send({ error: error.message });
-      return;
+      return { statusCode: 404, body: { error: error.message } };
+    }
+
+    if (error instanceof ConflictError) {
+      const { sessionId } = request.params as { sessionId?: string };
+      const currentPrompt =
+        sessionId && request.user
+          ? await deps.getCurrentPrompt
+              .execute({ sessionId, userId: request.user.id })
+              .catch(() => null)
+          : null;
+      return { statusCode: 409, body: { error: error.message, currentPrompt } };
+    }
+
+    if (error instanceof UpstreamUnavailableError) {
+      request.log.warn({ err: error.cause ?? error }, error.message);
+      return { statusCode: 503, body: { error: error.message, retryAfterSec: error.retryAfterSec } };
+    }
+
+    // Framework errors such as oversized or unsupported bodies already carry a client status.
+    if (error.statusCode && error.statusCode >= 400 && error.statusCode < 500) {
+      return { statusCode: error.statusCode, body: { error: error.message } };
     }
 
     request.log.error(error);
-    reply.status(500).send({ error: 'Internal server error' });
+    return { statusCode: 500, body: { error: 'Internal server error' } };
+  }
+
+  app.setErrorHandler<FastifyError>(async (error, request, reply) => {
+    const { statusCode, body } = await toErrorResponse(error, request);
+    if (error instanceof UpstreamUnavailableError) {
+      reply.header('Retry-After', String(error.retryAfterSec));
+    }
+    reply.status(statusCode).send(body);
   });
 
   return app;
 }
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+async function parseSubmitAnswerInput(request: FastifyRequest): Promise<SubmitAnswerInput> {
+  const params = z.object({ sessionId: z.string().uuid() }).parse(request.params);
+
+  const idempotencyKey = idempotencyKeyHeaderSchema.safeParse(request.headers['idempotency-key']);
+  if (!idempotencyKey.success) {
+    throw new ValidationError('Idempotency-Key header must be 1-255 characters.');
+  }
+
+  const answer = Buffer.isBuffer(request.body)
+    ? { audio: request.body, mimeType: request.headers['content-type'] }
+    : request.isMultipart()
+      ? await parseMultipartAnswer(request)
+      : parseJsonAnswer(request.body);
+
+  if (!answer.answerText && !answer.audio) {
+    throw new ValidationError('Provide either answerText or audio.');
+  }
+
+  return {
+    sessionId: params.sessionId,
+    userId: requestUserId(request),
+    ...answer,
+    idempotencyKey: idempotencyKey.data
+  };
+}
+
+type SubmittedAnswer = Pick<SubmitAnswerInput, 'answerText' | 'audio' | 'mimeType'>;
+
+function parseJsonAnswer(body: unknown): SubmittedAnswer {
+  const parsed = submitAnswerSchema.safeParse(body || {});
+  if (!parsed.success) {
+    throw new ValidationError('Invalid request body for answer submission.');
+  }
+
+  // responseDelaySec is still accepted for older clients but delays are measured server-side.
+  const { answerText, audioBase64, mimeType } = parsed.data;
+  return { answerText, mimeType, audio: audioBase64 ? Buffer.from(audioBase64, 'base64') : undefined };
+}
+
+async function parseMultipartAnswer(request: FastifyRequest): Promise<SubmittedAnswer> {
+  const fields: Record<string, unknown> = {};
+  let audio: Buffer | undefined;
+  let fileMimeType: string | undefined;
+
+  for await (const part of request.parts()) {
+    if (part.type === 'file') {
+      if (part.fieldname !== 'audio') {
+        throw new ValidationError('Upload the answer recording in the "audio" field.');
+      }
+      audio = await part.toBuffer();
+      fileMimeType = part.mimetype;
+    } else {
+      fields[part.fieldname] = part.value;
+    }
+  }
+
+  const parsed = submitAnswerFieldsSchema.safeParse(fields);
+  if (!parsed.success) {
+    throw new ValidationError('Invalid form fields for answer submission.');
+  }
+
+  // Browsers label unknown files application/octet-stream; let the audio sniffing decide then.
+  const mimeType =
+    parsed.data.mimeType ?? (fileMimeType === 'application/octet-stream' ? undefined : fileMimeType);
+  return { ...parsed.data, audio, mimeType };
+}
+
+/**
+ * Browsers cannot set headers on WebSocket upgrades, so they send the key as
+ * the subprotocol after this marker: `new WebSocket(url, ['bearer', apiKey])`.
+ * Unlike a query string, the header stays out of request logs and proxy logs.
+ */
+const WS_AUTH_PROTOCOL = 'bearer';
+
+function webSocketProtocolKey(header: string | undefined): string | undefined {
+  const protocols = (header ?? '').split(',').map((protocol) => protocol.trim());
+  const markerIndex = protocols.indexOf(WS_AUTH_PROTOCOL);
+  return markerIndex >= 0 ? protocols[markerIndex + 1] || undefined : undefined;
+}
+
+function redactCredentials(url: string): string {
+  return url.replace(/([?&]access_token=)[^&]*/gi, '$1[redacted]');
+}
+
+function requestUserId(request: FastifyRequest): string {
+  if (!request.user) {
+    throw new UnauthorizedError('Missing bearer API key.');
+  }
+  return request.user.id;
+}
+
+/** Requests that leave the session waiting on its feedback job are answered with 202 Accepted. */
+function sessionStatusCode(status: SessionStatus): 200 | 202 {
+  return status === 'generating_feedback' ? 202 : 200;
+}
@@ -0,0 +1,269 @@
+import type { WebSocket } from 'ws';
+import { z } from 'zod';
+import {
+  MAX_ANSWER_AUDIO_BYTES,
+  pcmFrameRms,
+  SILENCE_FRAME_MS,
+  SILENCE_RMS_THRESHOLD
+} from '../../application/audio/answer-audio.js';
+import type { GetCurrentPromptUseCase } from '../../application/use-cases/get-current-prompt.js';
+import type { SubmitAnswerUseCase } from '../../application/use-cases/submit-answer.js';
+import type { SynthesizeSpeechUseCase } from '../../application/use-cases/synthesize-speech.js';
+
+export interface VoiceSocketDependencies {
+  getCurrentPrompt: GetCurrentPromptUseCase;
+  submitAnswer: SubmitAnswerUseCase;
+  synthesizeSpeech: SynthesizeSpeechUseCase;
+  /** Quiet time that ends an answer: trailing PCM silence, or no chunks at all for other formats. */
+  endOfAnswerSilenceMs: number;
+  toErrorResponse(error: unknown): Promise<{ statusCode: number; body: Record<string, unknown> }>;
+  onPronunciationFailed(error: unknown): void;
+}
+
+/** Raw 16-bit little-endian mono PCM, the only format whose silence can be measured without decoding. */
+const PCM_MIME_TYPE = 'audio/pcm';
+const DEFAULT_MIME_TYPE = 'audio/webm';
+const DEFAULT_PCM_SAMPLE_RATE = 16_000;
+
+const clientMessageSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('start'),
+    mimeType: z.string().min(1).optional(),
+    sampleRate: z.number().int().min(8_000).max(48_000).optional()
+  }),
+  z.object({ type: z.literal('end') }),
+  z.object({ type: z.literal('playback_ended') })
+]);
+
+/**
+ * One voice interview call: serves the current prompt as speech, buffers the
+ * candidate's audio chunks until the answer ends, then runs it through
+ * SubmitAnswerUseCase and speaks the interviewer's reply.
+ */
+export class VoiceSocketSession {
+  private chunks: Buffer[] = [];
+  private bytes = 0;
+  private mimeType = DEFAULT_MIME_TYPE;
+  private sampleRate = DEFAULT_PCM_SAMPLE_RATE;
+  private promptReadyAt = Date.now();
+  private answerStartedAt: number | null = null;
+  private heardSpeech = false;
+  private trailingSilenceMs = 0;
+  private idleTimer: NodeJS.Timeout | null = null;
+  private busy = false;
+
+  constructor(
+    private readonly socket: WebSocket,
+    private readonly session: { sessionId: string; userId: string },
+    private readonly deps: VoiceSocketDependencies
+  ) {}
+
+  async start(): Promise<void> {
+    this.socket.on('message', (data, isBinary) => {
+      const payload = Array.isArray(data) ? Buffer.concat(data) : Buffer.from(data as ArrayBuffer);
+      if (isBinary) {
+        this.onAudio(payload);
+      } else {
+        void this.onControl(payload.toString('utf8'));
+      }
+    });
+    this.socket.on('close', () => this.clearIdleTimer());
+
+    try {
+      const prompt = await this.deps.getCurrentPrompt.execute(this.session);
+      this.send({ type: 'prompt', ...prompt });
+      if (!prompt.prompt) {
+        this.socket.close(1000, 'Interview completed');
+        return;
+      }
+      await this.speak(prompt.prompt);
+    } catch (error) {
+      const statusCode = await this.sendError(error);
+      this.socket.close(statusCode >= 500 ? 1011 : 1008, 'Session unavailable');
+    }
+  }
+
+  private async onControl(raw: string): Promise<void> {
+    let message: z.infer<typeof clientMessageSchema>;
+    try {
+      message = clientMessageSchema.parse(JSON.parse(raw));
+    } catch {
+      this.send({ type: 'error', error: 'Unrecognized control message.', statusCode: 400 });
+      return;
+    }
+
+    if (message.type === 'playback_ended') {
+      if (this.answerStartedAt === null) {
+        this.promptReadyAt = Date.now();
+      }
+      return;
+    }
+
+    if (message.type === 'end') {
+      await this.finishAnswer();
+      return;
+    }
+
+    if (this.busy) {
+      this.send({ type: 'error', error: 'Still processing the previous answer.', statusCode: 409 });
+      return;
+    }
+    this.resetAnswer();
+    this.mimeType = message.mimeType ?? DEFAULT_MIME_TYPE;
+    this.sampleRate = message.sampleRate ?? DEFAULT_PCM_SAMPLE_RATE;
+  }
+
+  private onAudio(chunk: Buffer): void {
+    if (this.busy) {
+      this.send({ type: 'error', error: 'Still processing the previous answer.', statusCode: 409 });
+      return;
+    }
+
+    this.answerStartedAt ??= Date.now();
+    this.chunks.push(chunk);
+    this.bytes += chunk.length;
+
+    if (this.bytes > MAX_ANSWER_AUDIO_BYTES) {
+      this.resetAnswer();
+      this.send({ type: 'error', error: 'Answer audio exceeds 25 MB.', statusCode: 413 });
+      return;
+    }
+
+    if (this.mimeType === PCM_MIME_TYPE) {
+      this.trackSilence(chunk);
+      if (this.heardSpeech && this.trailingSilenceMs >= this.deps.endOfAnswerSilenceMs) {
+        void this.finishAnswer();
+        return;
+      }
+    }
+
+    this.clearIdleTimer();
+    this.idleTimer = setTimeout(() => void this.finishAnswer(), this.deps.endOfAnswerSilenceMs);
+  }
+
+  private async finishAnswer(): Promise<void> {
+    this.clearIdleTimer();
+    if (this.busy || !this.chunks.length) {
+      return;
+    }
+
+    this.busy = true;
+    const isPcm = this.mimeType === PCM_MIME_TYPE;
+    const audio = isPcm ? pcmToWav(Buffer.concat(this.chunks), this.sampleRate) : Buffer.concat(this.chunks);
+    const answerStartDelaySec = ((this.answerStartedAt ?? Date.now()) - this.promptReadyAt) / 1000;
+    this.resetAnswer();
+
+    try {
+      const result = await this.deps.submitAnswer.execute(
+        {
+          ...this.session,
+          audio,
+          mimeType: isPcm ? 'audio/wav' : this.mimeType,
+          answerStartDelaySec: Math.max(0, Number(answerStartDelaySec.toFixed(2)))
+        },
+        {
+          onTranscript: (text) => this.send({ type: 'transcript', text }),
+          onReplyDelta: (text) => this.send({ type: 'reply_delta', text }),
+          onFeedbackStarted: () => this.send({ type: 'status', phase: 'generating_feedback' }),
+          onPronunciationFailed: this.deps.onPronunciationFailed
+        }
+      );
+
+      this.send({
+        type: 'reply',
+        text: result.interviewerMessage,
+        status: result.status,
+        nextPrompt: result.nextPrompt,
+        promptType: result.promptType
+      });
+      if (result.answerFeedback) {
+        this.send({ type: 'answer_feedback', ...result.answerFeedback });
+      }
+      await this.speak([result.interviewerMessage, result.nextPrompt].filter(Boolean).join(' '));
+
+      // The final feedback is written in the background; clients fetch it from the result endpoint.
+      if (result.status !== 'in_progress') {
+        this.socket.close(1000, 'Interview completed');
+      }
+    } catch (error) {
+      await this.sendError(error);
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  /** Sends an `audio` header message followed by the MP3 as one binary frame. */
+  private async speak(text: string): Promise<void> {
+    try {
+      const speech = await this.deps.synthesizeSpeech.execute({ text });
+      this.send({ type: 'audio', mimeType: speech.mimeType, bytes: speech.audio.length });
+      if (this.socket.readyState === this.socket.OPEN) {
+        this.socket.send(speech.audio, { binary: true });
+      }
+    } catch (error) {
+      await this.sendError(error);
+    } finally {
+      this.promptReadyAt = Date.now();
+    }
+  }
+
+  private trackSilence(chunk: Buffer): void {
+    const frameBytes = Math.max(2, Math.floor((this.sampleRate * SILENCE_FRAME_MS) / 1000) * 2);
+    const usableBytes = chunk.length - (chunk.length % 2);
+    for (let offset = 0; offset < usableBytes; offset += frameBytes) {
+      const frame = chunk.subarray(offset, Math.min(offset + frameBytes, usableBytes));
+      if (pcmFrameRms(frame) > SILENCE_RMS_THRESHOLD) {
+        this.heardSpeech = true;
+        this.trailingSilenceMs = 0;
+      } else {
+        this.trailingSilenceMs += (frame.length / 2 / this.sampleRate) * 1000;
+      }
+    }
+  }
+
+  private resetAnswer(): void {
+    this.clearIdleTimer();
+    this.chunks = [];
+    this.bytes = 0;
+    this.answerStartedAt = null;
+    this.heardSpeech = false;
+    this.trailingSilenceMs = 0;
+  }
+
+  private clearIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+
+  private async sendError(error: unknown): Promise<number> {
+    const { statusCode, body } = await this.deps.toErrorResponse(error);
+    this.send({ type: 'error', ...body, statusCode });
+    return statusCode;
+  }
+
+  private send(message: Record<string, unknown>): void {
+    if (this.socket.readyState === this.socket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+}
+
+function pcmToWav(pcm: Buffer, sampleRate: number): Buffer {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(pcm.length, 40);
+  return Buffer.concat([header, pcm]);
+}